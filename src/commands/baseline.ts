@@ -0,0 +1,33 @@
+import * as vscode from 'vscode';
+import { ProfileStore } from '../state/profileStore';
+import { getLogger } from '../utils/logger';
+
+export function registerPinBaselineCommand(profileStore: ProfileStore): vscode.Disposable {
+    return vscode.commands.registerCommand('pyroscope.pinBaseline', () => {
+        const logger = getLogger();
+
+        if (!profileStore.pinBaseline()) {
+            vscode.window.showInformationMessage('No profile loaded to pin as baseline');
+            return;
+        }
+
+        const baseline = profileStore.getBaseline()!;
+        logger.info(`Pinned baseline: ${baseline.info.name}`);
+        vscode.window.showInformationMessage(
+            `Pinned "${baseline.info.name}" as baseline. Load or fetch another profile to compare.`
+        );
+    });
+}
+
+export function registerClearBaselineCommand(profileStore: ProfileStore): vscode.Disposable {
+    return vscode.commands.registerCommand('pyroscope.clearBaseline', () => {
+        if (!profileStore.getBaseline()) {
+            vscode.window.showInformationMessage('No baseline pinned');
+            return;
+        }
+
+        profileStore.clearBaseline();
+        getLogger().info('Baseline cleared');
+        vscode.window.showInformationMessage('Baseline cleared');
+    });
+}
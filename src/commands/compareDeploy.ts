@@ -0,0 +1,230 @@
+import * as vscode from 'vscode';
+import { ProfileStore, ProfileEntry } from '../state/profileStore';
+import { PyroscopeClient, ProfileType } from '../pyroscope/client';
+import { decompressBuffer } from '../parser/decompressor';
+import { parseProfile } from '../parser/pprofParser';
+import { collectFunctionLocations, mapFlameGraphDiffToSource } from '../parser/flameGraphMapper';
+import { getLogger } from '../utils/logger';
+import { PathResolver } from '../utils/pathResolver';
+import { parseTimeExpression } from '../utils/timeRange';
+import { pickApplication, pickEnvironment } from './pickers';
+
+export function registerCompareDeployCommand(profileStore: ProfileStore): vscode.Disposable {
+    return vscode.commands.registerCommand('pyroscope.compareDeploy', async () => {
+        const logger = getLogger();
+
+        try {
+            logger.info('=== Comparing Before/After Deploy ===');
+
+            const config = vscode.workspace.getConfiguration('pyroscope');
+            const serverUrl = config.get<string>('serverUrl', 'http://localhost:4040');
+            const authToken = config.get<string>('authToken', '');
+
+            if (!serverUrl) {
+                logger.error('Server URL not configured');
+                vscode.window.showErrorMessage('Please configure pyroscope.serverUrl in settings');
+                return;
+            }
+
+            const client = new PyroscopeClient(serverUrl, authToken);
+
+            const selectedApp = await pickApplication(client);
+            if (!selectedApp) {
+                return;
+            }
+
+            const environmentSelection = await pickEnvironment(client);
+            if (!environmentSelection) {
+                return;
+            }
+            const selectedEnvironment = environmentSelection.environment;
+
+            // Ask for the deploy time
+            const timestampInput = await vscode.window.showInputBox({
+                prompt: 'Deploy time (e.g. 2026-10-12T14:00:00Z, "2026-10-12 14:00 UTC" or unix seconds)',
+                value: new Date(Date.now() - 3600 * 1000).toISOString(),
+                validateInput: (value) =>
+                    parseTimeExpression(value, Math.floor(Date.now() / 1000)) === null
+                        ? 'Not a valid date/time'
+                        : null,
+            });
+
+            if (!timestampInput) {
+                logger.info('Deploy time input cancelled');
+                return;
+            }
+
+            const deployTime = parseTimeExpression(timestampInput, Math.floor(Date.now() / 1000))!;
+
+            // Ask for the window length on each side of the deploy
+            const windows = [
+                { label: '15 minutes', value: 900 },
+                { label: '30 minutes', value: 1800 },
+                { label: '1 hour', value: 3600 },
+                { label: '2 hours', value: 7200 },
+                { label: '6 hours', value: 21600 },
+                { label: '24 hours', value: 86400 },
+            ];
+
+            const selectedWindow = await vscode.window.showQuickPick(windows, {
+                placeHolder: 'Window length before and after the deploy',
+            });
+
+            if (!selectedWindow) {
+                logger.info('Window selection cancelled');
+                return;
+            }
+
+            // Without enough time since the deploy, shorten both windows alike so the
+            // sides cover the same length and their totals stay comparable
+            const now = Math.floor(Date.now() / 1000);
+            const windowLength = Math.min(selectedWindow.value, now - deployTime);
+            if (windowLength <= 0) {
+                vscode.window.showErrorMessage('Deploy time is in the future');
+                return;
+            }
+
+            const before = { startTime: deployTime - windowLength, endTime: deployTime };
+            const after = { startTime: deployTime, endTime: deployTime + windowLength };
+
+            const shortened = windowLength < selectedWindow.value;
+            const windowLabel = shortened
+                ? `${Math.max(1, Math.round(windowLength / 60))} min`
+                : selectedWindow.label;
+            logger.info(
+                `Deploy at ${new Date(deployTime * 1000).toISOString()}, window ${windowLabel}`
+            );
+            if (shortened) {
+                vscode.window.showWarningMessage(
+                    `Only ${windowLabel} have passed since the deploy; comparing ${windowLabel} on each side instead of ${selectedWindow.label}.`
+                );
+            }
+
+            // Pick the profile type to compare
+            let availableTypes: ProfileType[];
+            try {
+                availableTypes = await client.getProfileTypes(before.startTime, after.endTime);
+            } catch (error: any) {
+                logger.error(`Failed to fetch profile types: ${error.message}`);
+                vscode.window.showErrorMessage(`Failed to fetch profile types: ${error.message}`);
+                return;
+            }
+
+            const selectedType = await vscode.window.showQuickPick(
+                availableTypes.map((type) => ({
+                    label: type.name,
+                    description: `${type.sampleType}:${type.sampleUnit}`,
+                    profileType: type,
+                })),
+                { placeHolder: 'Select profile type to compare' }
+            );
+
+            if (!selectedType) {
+                logger.info('Profile type selection cancelled');
+                return;
+            }
+
+            const type = selectedType.profileType;
+
+            const entry = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Comparing before/after deploy',
+                    cancellable: false,
+                },
+                async (progress) => {
+                    progress.report({ message: 'Fetching diff...' });
+
+                    // The diff only has function names; the pprof supplies their source locations
+                    const [diff, profileData] = await Promise.all([
+                        client.fetchDiff(selectedApp, before, after, type.id, selectedEnvironment),
+                        client.fetchProfile(
+                            selectedApp,
+                            before.startTime,
+                            after.endTime,
+                            type.id,
+                            selectedEnvironment
+                        ),
+                    ]);
+                    logger.info(
+                        `Diff: ${diff.names.length} functions, leftTicks=${diff.leftTicks}, rightTicks=${diff.rightTicks}`
+                    );
+
+                    progress.report({ message: 'Mapping to source files...' });
+
+                    const parsed = await parseProfile(decompressBuffer(profileData));
+                    const pathResolver = new PathResolver(logger);
+                    await pathResolver.initialize();
+                    const metrics = mapFlameGraphDiffToSource(
+                        diff,
+                        collectFunctionLocations(parsed),
+                        pathResolver,
+                        type.sampleType,
+                        type.sampleUnit
+                    );
+
+                    return {
+                        name: type.name,
+                        typeId: type.id,
+                        sampleType: type.sampleType,
+                        unit: type.sampleUnit,
+                        metrics,
+                        profile: parsed,
+                        isDiff: true,
+                    } as ProfileEntry;
+                }
+            );
+
+            if (entry.metrics.size === 0) {
+                logger.warn('⚠ Diff fetched but NO files matched');
+                vscode.window.showWarningMessage(
+                    'Diff fetched but no files matched. Check Output for details.'
+                );
+                return;
+            }
+
+            // Count functions that got slower or faster
+            let regressions = 0;
+            let improvements = 0;
+            entry.metrics.forEach((fileMetrics) => {
+                fileMetrics.forEach((metrics) => {
+                    if (metrics.delta && metrics.delta.percent >= 0.5) {
+                        regressions++;
+                    } else if (metrics.delta && metrics.delta.percent <= -0.5) {
+                        improvements++;
+                    }
+                });
+            });
+
+            let sessionName = selectedApp;
+            if (selectedEnvironment) {
+                sessionName += ` [${selectedEnvironment}]`;
+            }
+            sessionName += ` deploy @ ${new Date(deployTime * 1000).toISOString()} (±${windowLabel})`;
+
+            profileStore.loadProfiles(
+                [entry],
+                sessionName,
+                {
+                    serverUrl,
+                    appName: selectedApp,
+                    environment: selectedEnvironment,
+                    startTime: after.startTime,
+                    endTime: after.endTime,
+                },
+                'vs before deploy'
+            );
+
+            logger.info(
+                `✓ Deploy comparison loaded: ${regressions} regressions, ${improvements} improvements`
+            );
+            vscode.window.showInformationMessage(
+                `Deploy comparison (${type.name}): ${regressions} regressions, ${improvements} improvements`
+            );
+        } catch (error) {
+            const errMsg = error instanceof Error ? error.message : String(error);
+            logger.error(`Failed to compare deploy: ${errMsg}`);
+            vscode.window.showErrorMessage(`Failed to compare deploy: ${errMsg}`);
+        }
+    });
+}
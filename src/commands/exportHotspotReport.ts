@@ -0,0 +1,349 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProfileStore, ProfileEntry } from '../state/profileStore';
+import { LineRemapper } from '../state/lineRemapper';
+import { LineMetrics, getSampleValue } from '../parser/sourceMapper';
+import { describeLabelFilter } from '../parser/labelFilter';
+import { buildLabelSelector } from '../pyroscope/labelSelector';
+import { formatPercent, formatValue } from '../decorations/hintRenderer';
+import { HotspotRanking } from '../views/hotspotsView';
+import { formatTimeRange } from '../utils/timeRange';
+import { shortRevision } from '../utils/git';
+import { getLogger } from '../utils/logger';
+
+type ReportFormat = 'markdown' | 'csv' | 'json';
+
+const REPORT_FORMATS: { format: ReportFormat; label: string; extension: string }[] = [
+    { format: 'markdown', label: 'Markdown', extension: 'md' },
+    { format: 'csv', label: 'CSV', extension: 'csv' },
+    { format: 'json', label: 'JSON', extension: 'json' },
+];
+
+/**
+ * A ranked line or function, with values in the unit of its profile type
+ */
+interface HotspotItem {
+    file: string; // Workspace-relative
+    line: number; // First profiled line of a function
+    function?: string;
+    self: number;
+    selfPercent: number;
+    total: number;
+    percent: number;
+}
+
+interface ProfileReport {
+    name: string;
+    sampleType: string;
+    unit: string;
+    labelFilter?: string;
+    lines: HotspotItem[];
+    functions: HotspotItem[];
+}
+
+interface HotspotReport {
+    session: {
+        name: string;
+        loadedAt: string;
+        server?: string;
+        selector?: string;
+        from?: string;
+        to?: string;
+        comparison?: string;
+        revision?: string; // Profiled revision; lines are those of the working copy
+    };
+    rankBy: HotspotRanking;
+    profiles: ProfileReport[];
+}
+
+/**
+ * Write the hottest lines and functions of each loaded profile type to a file that can be
+ * attached to a ticket or performance review
+ */
+export function registerExportHotspotReportCommand(
+    profileStore: ProfileStore,
+    lineRemapper: LineRemapper
+): vscode.Disposable {
+    return vscode.commands.registerCommand('pyroscope.exportHotspotReport', async () => {
+        const logger = getLogger();
+
+        const info = profileStore.getProfileInfo();
+        const entries = profileStore
+            .getLoadedProfileNames()
+            .map((name) => profileStore.getProfileEntry(name))
+            .filter((entry): entry is ProfileEntry => entry !== null);
+        if (!info || entries.length === 0) {
+            vscode.window.showInformationMessage(
+                'No profile loaded. Load a profile file or fetch a profile first.'
+            );
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            REPORT_FORMATS.map((item) => ({ ...item, description: `.${item.extension}` })),
+            { placeHolder: 'Select the report format' }
+        );
+        if (!selected) {
+            return;
+        }
+
+        const baseName = info.name
+            .replace(/\.(pb\.gz|pb|pprof|folded|collapsed|txt|cpuprofile|json)$/, '')
+            .replace(/[^\w.-]+/g, '_');
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const targetUri = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder
+                ? vscode.Uri.joinPath(workspaceFolder, `${baseName}-hotspots.${selected.extension}`)
+                : undefined,
+            filters: { [selected.label]: [selected.extension] },
+            saveLabel: 'Export Report',
+        });
+        if (!targetUri) {
+            return;
+        }
+
+        try {
+            // Report working copy lines for every file, not just those opened so far
+            if (info.revision) {
+                await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Window,
+                        title: 'Pyroscope: mapping lines to the working copy',
+                    },
+                    () => lineRemapper.remapAllFiles()
+                );
+            }
+
+            const config = vscode.workspace.getConfiguration('pyroscope');
+            const report = buildReport(
+                profileStore,
+                entries,
+                config.get<HotspotRanking>('hotspots.rankBy', 'self'),
+                config.get<number>('hotspots.reportSize', 20)
+            );
+            await fs.promises.writeFile(targetUri.fsPath, formatReport(report, selected.format));
+            logger.info(`Exported hotspot report to ${targetUri.fsPath}`);
+
+            const action = await vscode.window.showInformationMessage(
+                `Hotspot report exported to ${path.basename(targetUri.fsPath)}`,
+                'Open'
+            );
+            if (action === 'Open') {
+                await vscode.window.showTextDocument(targetUri);
+            }
+        } catch (error) {
+            const errMsg = error instanceof Error ? error.message : String(error);
+            logger.error(`Failed to export hotspot report: ${errMsg}`);
+            vscode.window.showErrorMessage(`Failed to export hotspot report: ${errMsg}`);
+        }
+    });
+}
+
+function buildReport(
+    profileStore: ProfileStore,
+    entries: ProfileEntry[],
+    rankBy: HotspotRanking,
+    size: number
+): HotspotReport {
+    const info = profileStore.getProfileInfo()!;
+    const query = info.query;
+    const comparison = profileStore.isComparing() ? profileStore.getComparisonLabel() : '';
+
+    const rank = (items: HotspotItem[]) =>
+        items
+            .filter((item) => (rankBy === 'self' ? item.self : item.total) > 0)
+            .sort((a, b) =>
+                rankBy === 'self' ? b.selfPercent - a.selfPercent : b.percent - a.percent
+            )
+            .slice(0, size);
+
+    return {
+        session: {
+            name: info.name,
+            loadedAt: info.timestamp,
+            server: query?.serverUrl,
+            selector: query
+                ? buildLabelSelector(query.appName, query.environment, query.labelMatchers)
+                : undefined,
+            from: query ? new Date(query.startTime * 1000).toISOString() : undefined,
+            to: query ? new Date(query.endTime * 1000).toISOString() : undefined,
+            comparison: comparison || undefined,
+            revision: info.revision,
+        },
+        rankBy,
+        profiles: entries.map((entry) => {
+            const lines: HotspotItem[] = [];
+            const functions: HotspotItem[] = [];
+            profileStore.getEntryMetrics(entry.name).forEach((fileMetrics, filePath) => {
+                const file = vscode.workspace.asRelativePath(filePath, false);
+                const groups = new Map<string, LineMetrics[]>();
+                fileMetrics.forEach((metrics) => {
+                    lines.push(toItem(file, metrics.line, [metrics], entry, metrics.functionName));
+                    if (metrics.functionName) {
+                        groups.set(metrics.functionName, [
+                            ...(groups.get(metrics.functionName) || []),
+                            metrics,
+                        ]);
+                    }
+                });
+
+                // As in the Hotspots view, a sample passes through one line of each function
+                // on its stack, so line costs add up to the function's
+                groups.forEach((group, name) => {
+                    const line = Math.min(...group.map((metrics) => metrics.line));
+                    functions.push(toItem(file, line, group, entry, name));
+                });
+            });
+
+            return {
+                name: entry.name,
+                sampleType: entry.sampleType,
+                unit: entry.unit,
+                labelFilter: entry.labelFilter
+                    ? describeLabelFilter(entry.labelFilter) || undefined
+                    : undefined,
+                lines: rank(lines),
+                functions: rank(functions),
+            };
+        }),
+    };
+}
+
+function toItem(
+    file: string,
+    line: number,
+    group: LineMetrics[],
+    entry: ProfileEntry,
+    functionName?: string
+): HotspotItem {
+    const item: HotspotItem = { file, line, self: 0, selfPercent: 0, total: 0, percent: 0 };
+    if (functionName) {
+        item.function = functionName;
+    }
+    group.forEach((metrics) => {
+        const value = getSampleValue(metrics, entry.sampleType);
+        item.self += value.self;
+        item.selfPercent += value.selfPercent;
+        item.total += value.total;
+        item.percent += value.percent;
+    });
+    return item;
+}
+
+function formatReport(report: HotspotReport, format: ReportFormat): string {
+    switch (format) {
+        case 'markdown':
+            return formatMarkdown(report);
+        case 'csv':
+            return formatCsv(report);
+        case 'json':
+            return `${JSON.stringify(report, null, 2)}\n`;
+    }
+}
+
+function formatMarkdown(report: HotspotReport): string {
+    const { session } = report;
+    const out: string[] = [`# Hotspot report: ${session.name}`, ''];
+
+    if (session.server) {
+        out.push(`- Server: ${session.server}`);
+    }
+    if (session.selector) {
+        out.push(`- Selector: \`${session.selector}\``);
+    }
+    if (session.from && session.to) {
+        const range = {
+            from: Date.parse(session.from) / 1000,
+            to: Date.parse(session.to) / 1000,
+        };
+        out.push(`- Time range: ${formatTimeRange(range)}`);
+    }
+    if (session.comparison) {
+        out.push(`- Comparison: ${session.comparison}`);
+    }
+    if (session.revision) {
+        out.push(
+            `- Profiled revision: \`${shortRevision(session.revision)}\` (lines mapped to the working copy)`
+        );
+    }
+    out.push(`- Loaded: ${session.loadedAt}`, `- Ranked by: ${report.rankBy}`);
+
+    const escape = (text: string) => text.replace(/\|/g, '\\|');
+    const table = (items: HotspotItem[], unit: string, withFunction: boolean) => {
+        if (items.length === 0) {
+            return ['No samples.'];
+        }
+        const header = withFunction
+            ? ['| # | Function | Location | Self | Total |', '|---|---|---|---|---|']
+            : ['| # | Location | Function | Self | Total |', '|---|---|---|---|---|'];
+        return [
+            ...header,
+            ...items.map((item, i) => {
+                const location = `\`${escape(item.file)}:${item.line}\``;
+                const name = item.function ? `\`${escape(item.function)}\`` : '';
+                const self = `${formatValue(item.self, unit)} (${formatPercent(item.selfPercent)})`;
+                const total = `${formatValue(item.total, unit)} (${formatPercent(item.percent)})`;
+                return withFunction
+                    ? `| ${i + 1} | ${name} | ${location} | ${self} | ${total} |`
+                    : `| ${i + 1} | ${location} | ${name} | ${self} | ${total} |`;
+            }),
+        ];
+    };
+
+    report.profiles.forEach((profile) => {
+        out.push('', `## ${profile.name}`, '');
+        const filter = profile.labelFilter ? `, filtered to ${profile.labelFilter}` : '';
+        out.push(`Sample type \`${profile.sampleType}\`, unit \`${profile.unit}\`${filter}`);
+        out.push('', '### Functions', '', ...table(profile.functions, profile.unit, true));
+        out.push('', '### Lines', '', ...table(profile.lines, profile.unit, false));
+    });
+
+    return `${out.join('\n')}\n`;
+}
+
+/**
+ * One row per ranked item. CSV has no place for session metadata, which the Markdown and
+ * JSON formats carry.
+ */
+function formatCsv(report: HotspotReport): string {
+    const quote = (value: string | number | undefined) => {
+        const text = value === undefined ? '' : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const rows = [
+        'profile,sample_type,unit,label_filter,kind,rank,file,line,function,self,self_percent,total,total_percent',
+    ];
+    report.profiles.forEach((profile) => {
+        const kinds: [string, HotspotItem[]][] = [
+            ['function', profile.functions],
+            ['line', profile.lines],
+        ];
+        kinds.forEach(([kind, items]) =>
+            items.forEach((item, i) =>
+                rows.push(
+                    [
+                        profile.name,
+                        profile.sampleType,
+                        profile.unit,
+                        profile.labelFilter,
+                        kind,
+                        i + 1,
+                        item.file,
+                        item.line,
+                        item.function,
+                        item.self,
+                        item.selfPercent.toFixed(2),
+                        item.total,
+                        item.percent.toFixed(2),
+                    ]
+                        .map(quote)
+                        .join(',')
+                )
+            )
+        );
+    });
+
+    return `${rows.join('\n')}\n`;
+}
@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProfileStore, ProfileEntry } from '../state/profileStore';
+import { ParsedProfile } from '../parser/pprofParser';
+import { encodeProfile } from '../parser/pprofWriter';
+import { getLogger } from '../utils/logger';
+
+/**
+ * Write the loaded profile back out as a gzipped pprof file, e.g. to open a label-filtered
+ * subset in `go tool pprof` or share a converted speedscope or V8 profile
+ */
+export function registerExportProfileCommand(profileStore: ProfileStore): vscode.Disposable {
+    return vscode.commands.registerCommand('pyroscope.exportProfile', async () => {
+        const logger = getLogger();
+
+        // Entries that keep their samples; span and diff metrics come from flame graphs
+        const entries = profileStore
+            .getSessionEntries()
+            .filter((entry) => entry.profile && !entry.isDiff);
+        const info = profileStore.getProfileInfo();
+        if (entries.length === 0 || info?.query?.spanSelector) {
+            vscode.window.showInformationMessage(
+                'No profile with samples loaded. Load a profile file or fetch a profile first.'
+            );
+            return;
+        }
+
+        // Sample types of one file share a profile; fetched types each have their own
+        const groups = new Map<ParsedProfile, ProfileEntry[]>();
+        entries.forEach((entry) => {
+            groups.set(entry.profile!, [...(groups.get(entry.profile!) || []), entry]);
+        });
+
+        let profile = entries[0].profile!;
+        if (groups.size > 1) {
+            const selected = await vscode.window.showQuickPick(
+                Array.from(groups.entries()).map(([groupProfile, groupEntries]) => ({
+                    label: groupEntries.map((entry) => entry.name).join(', '),
+                    description: `${groupProfile.samples.length} samples`,
+                    profile: groupProfile,
+                })),
+                { placeHolder: 'Select the profile to export' }
+            );
+            if (!selected) {
+                return;
+            }
+            profile = selected.profile;
+        }
+
+        const baseName = (info?.name || 'profile')
+            .replace(/\.(pb\.gz|pb|pprof|folded|collapsed|txt|cpuprofile|json)$/, '')
+            .replace(/[^\w.-]+/g, '_');
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const targetUri = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder
+                ? vscode.Uri.joinPath(workspaceFolder, `${baseName}.pb.gz`)
+                : undefined,
+            filters: {
+                // eslint-disable-next-line @typescript-eslint/naming-convention
+                'pprof Profile': ['pb.gz'],
+            },
+            saveLabel: 'Export Profile',
+        });
+        if (!targetUri) {
+            return;
+        }
+
+        try {
+            const data = await encodeProfile(profile);
+            await fs.promises.writeFile(targetUri.fsPath, data);
+            logger.info(
+                `Exported ${profile.samples.length} samples (${profile.sampleTypes.map((st) => st.type).join(', ')}) to ${targetUri.fsPath}`
+            );
+            vscode.window.showInformationMessage(
+                `Profile exported to ${path.basename(targetUri.fsPath)}`
+            );
+        } catch (error) {
+            const errMsg = error instanceof Error ? error.message : String(error);
+            logger.error(`Failed to export profile: ${errMsg}`);
+            vscode.window.showErrorMessage(`Failed to export profile: ${errMsg}`);
+        }
+    });
+}
@@ -1,332 +1,381 @@
 import * as vscode from 'vscode';
 import { ProfileStore, ProfileEntry } from '../state/profileStore';
-import { PyroscopeClient, ProfileType } from '../pyroscope/client';
+import {
+    FetchPreset,
+    FetchQuery,
+    findFetchPreset,
+    normalizeFetchPreset,
+    setLastFetch,
+} from '../state/fetchPresets';
+import {
+    PyroscopeClient,
+    ProfileType,
+    expandProfileTypeId,
+    getProfileTypeShorthands,
+    parseProfileTypeId,
+} from '../pyroscope/client';
 import { decompressBuffer } from '../parser/decompressor';
 import { parseProfile } from '../parser/pprofParser';
 import { mapSamplesToSource } from '../parser/sourceMapper';
 import { getLogger, shouldLogDebug } from '../utils/logger';
 import { PathResolver } from '../utils/pathResolver';
-
-export function registerFetchFromPyroscopeCommand(profileStore: ProfileStore): vscode.Disposable {
-    return vscode.commands.registerCommand('pyroscope.fetchFromPyroscope', async () => {
-        const logger = getLogger();
-
-        try {
-            logger.info('=== Fetching Profile from Pyroscope ===');
-
-            // Get configuration
-            const config = vscode.workspace.getConfiguration('pyroscope');
-            const serverUrl = config.get<string>('serverUrl', 'http://localhost:4040');
-            const authToken = config.get<string>('authToken', '');
-
-            logger.info(`Server URL: ${serverUrl}`);
-            logger.info(`Auth token: ${authToken ? '(configured)' : '(none)'}`);
-
-            if (!serverUrl) {
-                logger.error('Server URL not configured');
-                vscode.window.showErrorMessage('Please configure pyroscope.serverUrl in settings');
-                return;
-            }
-
-            const client = new PyroscopeClient(serverUrl, authToken);
-
-            // Test connection and get apps
-            let apps: string[];
-            try {
-                logger.info('Fetching application list...');
-                apps = await vscode.window.withProgress(
-                    {
-                        location: vscode.ProgressLocation.Notification,
-                        title: 'Connecting to Pyroscope...',
-                        cancellable: false,
-                    },
-                    async () => await client.getApplications()
-                );
-                logger.info(`Found ${apps.length} applications`);
-
-                if (shouldLogDebug()) {
-                    logger.debug(`Applications: ${apps.join(', ')}`);
-                }
-            } catch (error) {
-                const message = error instanceof Error ? error.message : 'Unknown error';
-                logger.error(`Failed to fetch applications: ${message}`);
-                vscode.window.showErrorMessage(`Failed to connect to Pyroscope: ${message}`);
-                return;
-            }
-
-            if (apps.length === 0) {
-                logger.warn('No applications found on server');
-                vscode.window.showWarningMessage('No applications found in Pyroscope');
-                return;
-            }
-
-            // Sort apps to put repo name first if it exists
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (workspaceFolders && workspaceFolders.length > 0) {
-                const repoName = workspaceFolders[0].name;
-                const repoIndex = apps.indexOf(repoName);
-                if (repoIndex > 0) {
-                    // Move repo name to front
-                    apps.splice(repoIndex, 1);
-                    apps.unshift(repoName);
-                    logger.debug(`Moved ${repoName} to front of application list`);
+import { describeTimeRange, resolveTimeRange } from '../utils/timeRange';
+import { pickApplication, pickEnvironment, pickLabelMatchers, pickTimeRange } from './pickers';
+import { LabelMatcher, formatLabelSelector, parseLabelSelector } from '../pyroscope/labelSelector';
+
+/**
+ * Register the fetch command. Without arguments it walks through the pickers; with a preset
+ * name or preset object (e.g. from a keybinding's "args") it fetches directly.
+ */
+export function registerFetchFromPyroscopeCommand(
+    profileStore: ProfileStore,
+    workspaceState: vscode.Memento
+): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'pyroscope.fetchFromPyroscope',
+        async (preset?: string | Partial<FetchPreset>) => {
+            const logger = getLogger();
+
+            if (preset) {
+                logger.info('=== Fetching Profile from Pyroscope (preset) ===');
+                const query =
+                    typeof preset === 'string'
+                        ? findFetchPreset(preset)
+                        : normalizeFetchPreset(preset);
+                if (!query) {
+                    logger.error(`Preset not found or invalid: ${JSON.stringify(preset)}`);
+                    vscode.window.showErrorMessage(
+                        `Pyroscope preset not found or missing appName: ${typeof preset === 'string' ? preset : JSON.stringify(preset)}`
+                    );
+                    return;
                 }
-            }
-
-            // Show application picker
-            const selectedApp = await vscode.window.showQuickPick(apps, {
-                placeHolder: 'Select an application',
-            });
-
-            if (!selectedApp) {
-                logger.info('Application selection cancelled');
+                await executeFetch(profileStore, workspaceState, query);
                 return;
             }
 
-            logger.info(`Selected application: ${selectedApp}`);
-
-            // Get available environments
-            let environments: string[];
             try {
-                logger.info('Fetching environments...');
-                environments = await vscode.window.withProgress(
-                    {
-                        location: vscode.ProgressLocation.Notification,
-                        title: 'Fetching environments...',
-                        cancellable: false,
-                    },
-                    async () => await client.getEnvironments()
-                );
-                logger.info(`Found ${environments.length} environments`);
-
-                if (shouldLogDebug()) {
-                    logger.debug(`Environments: ${environments.join(', ')}`);
+                logger.info('=== Fetching Profile from Pyroscope ===');
+                const query = await gatherFetchQuery();
+                if (query) {
+                    await executeFetch(profileStore, workspaceState, query);
                 }
             } catch (error) {
-                const message = error instanceof Error ? error.message : 'Unknown error';
-                logger.error(`Failed to fetch environments: ${message}`);
-                // Continue without environment filter if this fails
-                environments = [];
+                reportFetchError(error);
             }
+        }
+    );
+}
 
-            // Show environment picker if environments are available
-            let selectedEnvironment: string | undefined;
-            if (environments.length > 0) {
-                // Add an "All Environments" option
-                const envOptions = ['All Environments', ...environments];
-
-                const selectedEnv = await vscode.window.showQuickPick(envOptions, {
-                    placeHolder: 'Select deployment environment',
-                });
-
-                if (!selectedEnv) {
-                    logger.info('Environment selection cancelled');
-                    return;
-                }
-
-                if (selectedEnv !== 'All Environments') {
-                    selectedEnvironment = selectedEnv;
-                    logger.info(`Selected environment: ${selectedEnvironment}`);
-                } else {
-                    logger.info('Selected all environments (no filter)');
-                }
-            } else {
-                logger.info('No environments available, skipping environment selection');
-            }
-
-            // Show time range picker
-            const timeRanges = [
-                { label: 'Last 1 hour', value: 3600 },
-                { label: 'Last 6 hours', value: 21600 },
-                { label: 'Last 24 hours', value: 86400 },
-                { label: 'Last 7 days', value: 604800 },
-            ];
-
-            const selectedTimeRange = await vscode.window.showQuickPick(timeRanges, {
-                placeHolder: 'Select time range',
+/**
+ * Walk through the application, environment, time range, label and profile type pickers
+ * @returns The query, or undefined if cancelled
+ */
+async function gatherFetchQuery(): Promise<FetchQuery | undefined> {
+    const logger = getLogger();
+
+    // Get configuration
+    const config = vscode.workspace.getConfiguration('pyroscope');
+    const serverUrl = config.get<string>('serverUrl', 'http://localhost:4040');
+    const authToken = config.get<string>('authToken', '');
+
+    logger.info(`Server URL: ${serverUrl}`);
+    logger.info(`Auth token: ${authToken ? '(configured)' : '(none)'}`);
+
+    if (!serverUrl) {
+        logger.error('Server URL not configured');
+        vscode.window.showErrorMessage('Please configure pyroscope.serverUrl in settings');
+        return undefined;
+    }
+
+    const client = new PyroscopeClient(serverUrl, authToken);
+
+    // Show application picker
+    const selectedApp = await pickApplication(client);
+    if (!selectedApp) {
+        return undefined;
+    }
+
+    // Show environment picker if environments are available
+    const environmentSelection = await pickEnvironment(client);
+    if (!environmentSelection) {
+        return undefined;
+    }
+    const selectedEnvironment = environmentSelection.environment;
+
+    // Show time range picker
+    const timeRange = await pickTimeRange();
+    if (!timeRange) {
+        return undefined;
+    }
+    const { from, to } = resolveTimeRange(timeRange, Math.floor(Date.now() / 1000));
+
+    // Optional filters on any other labels (region, pod, version, ...) seen in that range
+    const labelMatchers = await pickLabelMatchers(client, selectedApp, selectedEnvironment, {
+        startTime: from,
+        endTime: to,
+    });
+    if (!labelMatchers) {
+        return undefined;
+    }
+
+    // Fetch available profile types
+    let availableTypes: ProfileType[];
+    try {
+        availableTypes = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: 'Fetching available profile types...',
+                cancellable: false,
+            },
+            async () => await client.getProfileTypes(from, to)
+        );
+        logger.info(`Found ${availableTypes.length} profile types`);
+        if (shouldLogDebug()) {
+            availableTypes.forEach((type) => {
+                logger.debug(
+                    `  - ${type.name}: ${type.sampleType}:${type.sampleUnit} (${type.id})`
+                );
             });
+        }
+    } catch (error: any) {
+        logger.error(`Failed to fetch profile types: ${error.message}`);
+        vscode.window.showErrorMessage(`Failed to fetch profile types: ${error.message}`);
+        return undefined;
+    }
+
+    if (availableTypes.length === 0) {
+        logger.warn('No profile types available for this service');
+        vscode.window.showWarningMessage('No profile types available for this service');
+        return undefined;
+    }
+
+    // Show profile type picker (multi-select)
+    const typeItems = availableTypes.map((type) => ({
+        label: type.name,
+        description: `${type.sampleType}:${type.sampleUnit}`,
+        picked: false,
+        profileType: type,
+    }));
+
+    const selectedTypes = await vscode.window.showQuickPick(typeItems, {
+        placeHolder: 'Select profile types to fetch (multiple selection)',
+        canPickMany: true,
+    });
 
-            if (!selectedTimeRange) {
-                logger.info('Time range selection cancelled');
-                return;
-            }
-
-            logger.info(`Time range: ${selectedTimeRange.label} (${selectedTimeRange.value}s)`);
+    if (!selectedTypes || selectedTypes.length === 0) {
+        logger.info('Profile type selection cancelled');
+        return undefined;
+    }
+
+    logger.info(
+        `Selected ${selectedTypes.length} profile types: ${selectedTypes.map((t) => t.label).join(', ')}`
+    );
+
+    return {
+        serverUrl,
+        appName: selectedApp,
+        environment: selectedEnvironment,
+        labelSelector: labelMatchers.length > 0 ? formatLabelSelector(labelMatchers) : undefined,
+        timeRange,
+        profileTypes: selectedTypes.map((item) => item.profileType.id),
+    };
+}
 
-            const now = Math.floor(Date.now() / 1000);
-            const from = now - selectedTimeRange.value;
+/**
+ * Fetch, map and load every profile type of a query, resolving its time range against now,
+ * and remember it as the last fetch
+ */
+export async function executeFetch(
+    profileStore: ProfileStore,
+    workspaceState: vscode.Memento,
+    query: FetchQuery
+): Promise<void> {
+    const logger = getLogger();
+
+    // Hand-written presets may name types by short name, or misspell them
+    const unknownTypes = query.profileTypes.filter((type) => !expandProfileTypeId(type));
+    if (unknownTypes.length > 0) {
+        logger.error(`Unknown profile types: ${unknownTypes.join(', ')}`);
+        vscode.window.showErrorMessage(
+            `Unknown profile type ${unknownTypes.join(', ')}. Use a full ID such as process_cpu:cpu:nanoseconds:cpu:nanoseconds or one of: ${getProfileTypeShorthands().join(', ')}`
+        );
+        return;
+    }
+
+    try {
+        const config = vscode.workspace.getConfiguration('pyroscope');
+        const client = new PyroscopeClient(query.serverUrl, config.get<string>('authToken', ''));
+        const labelMatchers = query.labelSelector ? parseLabelSelector(query.labelSelector) : [];
+        const range = resolveTimeRange(query.timeRange, Math.floor(Date.now() / 1000));
+        const { from, to } = range;
+        const selectedTypes: ProfileType[] = query.profileTypes.map((type) =>
+            parseProfileTypeId(expandProfileTypeId(type)!)
+        );
+
+        logger.info(
+            `Fetching ${query.appName}: ${selectedTypes.map((t) => t.name).join(', ')} from ${new Date(from * 1000).toISOString()} to ${new Date(to * 1000).toISOString()}`
+        );
+
+        // Fetch all selected profile types in parallel
+        const profileEntries = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: 'Fetching profiles',
+                cancellable: false,
+            },
+            async (progress) => {
+                const total = selectedTypes.length;
+
+                // Index the workspace once, shared by all profile types
+                progress.report({ message: 'Indexing workspace files...' });
+                const pathResolver = new PathResolver(logger);
+                await pathResolver.initialize();
+
+                // Fetch all profiles in parallel
+                const fetchPromises = selectedTypes.map(async (type, index) => {
+                    progress.report({
+                        message: `Fetching ${type.name} (${index + 1}/${total})`,
+                        increment: 100 / total,
+                    });
 
-            // Fetch available profile types
-            let availableTypes: ProfileType[];
-            try {
-                availableTypes = await vscode.window.withProgress(
-                    {
-                        location: vscode.ProgressLocation.Notification,
-                        title: 'Fetching available profile types...',
-                        cancellable: false,
-                    },
-                    async () => await client.getProfileTypes(from, now)
-                );
-                logger.info(`Found ${availableTypes.length} profile types`);
-                if (shouldLogDebug()) {
-                    availableTypes.forEach((type) => {
-                        logger.debug(
-                            `  - ${type.name}: ${type.sampleType}:${type.sampleUnit} (${type.id})`
+                    try {
+                        const entry = await fetchProfileEntry(
+                            client,
+                            pathResolver,
+                            type,
+                            query.appName,
+                            from,
+                            to,
+                            query.environment,
+                            labelMatchers
                         );
-                    });
-                }
-            } catch (error: any) {
-                logger.error(`Failed to fetch profile types: ${error.message}`);
-                vscode.window.showErrorMessage(`Failed to fetch profile types: ${error.message}`);
-                return;
-            }
+                        if (!entry) {
+                            logger.warn(`  ${type.name}: ⚠ Profile fetched but NO files matched`);
+                        }
+                        return entry;
+                    } catch (error: any) {
+                        logger.error(`  ${type.name}: Failed - ${error.message}`);
+                        vscode.window.showWarningMessage(
+                            `Failed to fetch ${type.name} profile: ${error.message}`
+                        );
+                        return null;
+                    }
+                });
 
-            if (availableTypes.length === 0) {
-                logger.warn('No profile types available for this service');
-                vscode.window.showWarningMessage('No profile types available for this service');
-                return;
+                const results = await Promise.all(fetchPromises);
+                return results.filter((entry): entry is ProfileEntry => entry !== null);
             }
+        );
 
-            // Show profile type picker (multi-select)
-            const typeItems = availableTypes.map((type) => ({
-                label: type.name,
-                description: `${type.sampleType}:${type.sampleUnit}`,
-                picked: false,
-                profileType: type,
-            }));
-
-            const selectedTypes = await vscode.window.showQuickPick(typeItems, {
-                placeHolder: 'Select profile types to fetch (multiple selection)',
-                canPickMany: true,
-            });
-
-            if (!selectedTypes || selectedTypes.length === 0) {
-                logger.info('Profile type selection cancelled');
-                return;
-            }
+        if (profileEntries.length === 0) {
+            logger.error('Failed to fetch any profiles');
+            vscode.window.showErrorMessage('Failed to fetch any profiles');
+            return;
+        }
 
-            logger.info(
-                `Selected ${selectedTypes.length} profile types: ${selectedTypes.map((t) => t.label).join(', ')}`
-            );
-
-            // Fetch all selected profile types in parallel
-            const profileEntries = await vscode.window.withProgress(
-                {
-                    location: vscode.ProgressLocation.Notification,
-                    title: 'Fetching profiles',
-                    cancellable: false,
-                },
-                async (progress) => {
-                    const entries: ProfileEntry[] = [];
-                    const total = selectedTypes.length;
-
-                    // Fetch all profiles in parallel
-                    const fetchPromises = selectedTypes.map(async (item, index) => {
-                        const type = item.profileType;
-                        progress.report({
-                            message: `Fetching ${type.name} (${index + 1}/${total})`,
-                            increment: 100 / total,
-                        });
-
-                        try {
-                            logger.info(`Fetching ${type.name} profile...`);
-
-                            // Fetch profile
-                            const profileData = await client.fetchProfile(
-                                selectedApp,
-                                selectedTimeRange.value,
-                                type.id,
-                                selectedEnvironment
-                            );
-                            logger.info(`  ${type.name}: Fetched ${profileData.length} bytes`);
-
-                            // Decompress
-                            const decompressed = decompressBuffer(profileData);
-                            logger.info(
-                                `  ${type.name}: Decompressed ${decompressed.length} bytes`
-                            );
-
-                            // Parse
-                            const parsed = await parseProfile(decompressed);
-                            logger.info(
-                                `  ${type.name}: Parsed ${parsed.samples.length} samples, ${parsed.functions.size} functions`
-                            );
-
-                            // Map to source
-                            const pathResolver = new PathResolver(logger);
-                            const metrics = await mapSamplesToSource(parsed, pathResolver);
-
-                            if (metrics.size === 0) {
-                                logger.warn(
-                                    `  ${type.name}: ⚠ Profile fetched but NO files matched`
-                                );
-                                return null;
-                            }
-
-                            logger.info(
-                                `  ${type.name}: ✓ SUCCESS: ${metrics.size} files with metrics`
-                            );
-
-                            return {
-                                name: type.name,
-                                typeId: type.id,
-                                sampleType: type.sampleType,
-                                unit: type.sampleUnit,
-                                metrics,
-                            } as ProfileEntry;
-                        } catch (error: any) {
-                            logger.error(`  ${type.name}: Failed - ${error.message}`);
-                            vscode.window.showWarningMessage(
-                                `Failed to fetch ${type.name} profile: ${error.message}`
-                            );
-                            return null;
-                        }
-                    });
+        // Store the profiles
+        let sessionName = query.appName;
+        if (query.environment) {
+            sessionName += ` [${query.environment}]`;
+        }
+        if (labelMatchers.length > 0) {
+            sessionName += ` ${formatLabelSelector(labelMatchers)}`;
+        }
+        sessionName += ` (${describeTimeRange(query.timeRange, range)})`;
+        profileStore.loadProfiles(profileEntries, sessionName, {
+            serverUrl: query.serverUrl,
+            appName: query.appName,
+            environment: query.environment,
+            startTime: from,
+            endTime: to,
+            labelMatchers,
+        });
+        await setLastFetch(workspaceState, query);
+
+        // Show success message
+        const profileNames = profileEntries.map((e) => e.name).join(', ');
+        const fileCount = new Set(profileEntries.flatMap((e) => Array.from(e.metrics.keys()))).size;
+
+        logger.info(
+            `✓ Loaded ${profileEntries.length} profiles (${profileNames}): ${fileCount} files`
+        );
+
+        vscode.window.showInformationMessage(
+            `Loaded ${profileEntries.length} profiles (${profileNames}): ${fileCount} files`
+        );
+    } catch (error) {
+        reportFetchError(error);
+    }
+}
 
-                    const results = await Promise.all(fetchPromises);
-                    return results.filter((entry): entry is ProfileEntry => entry !== null);
-                }
-            );
+/**
+ * Fetch one profile type and map it to workspace files
+ * @returns The entry, or null if no files matched
+ */
+export async function fetchProfileEntry(
+    client: PyroscopeClient,
+    pathResolver: PathResolver,
+    type: ProfileType,
+    appName: string,
+    from: number,
+    to: number,
+    environment?: string,
+    labelMatchers: LabelMatcher[] = []
+): Promise<ProfileEntry | null> {
+    const logger = getLogger();
+    logger.info(`Fetching ${type.name} profile...`);
+
+    // Fetch profile
+    const profileData = await client.fetchProfile(
+        appName,
+        from,
+        to,
+        type.id,
+        environment,
+        labelMatchers
+    );
+    logger.info(`  ${type.name}: Fetched ${profileData.length} bytes`);
+
+    // Decompress
+    const decompressed = decompressBuffer(profileData);
+    logger.info(`  ${type.name}: Decompressed ${decompressed.length} bytes`);
+
+    // Parse
+    const parsed = await parseProfile(decompressed);
+    logger.info(
+        `  ${type.name}: Parsed ${parsed.samples.length} samples, ${parsed.functions.size} functions`
+    );
+
+    // Map to source
+    const metrics = await mapSamplesToSource(parsed, pathResolver);
+    if (metrics.size === 0) {
+        return null;
+    }
+
+    logger.info(`  ${type.name}: ✓ SUCCESS: ${metrics.size} files with metrics`);
+
+    return {
+        name: type.name,
+        typeId: type.id,
+        sampleType: type.sampleType,
+        unit: type.sampleUnit,
+        metrics,
+        profile: parsed,
+    };
+}
 
-            if (profileEntries.length === 0) {
-                logger.error('Failed to fetch any profiles');
-                vscode.window.showErrorMessage('Failed to fetch any profiles');
-                return;
-            }
+function reportFetchError(error: unknown): void {
+    const logger = getLogger();
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to fetch profile: ${errMsg}`);
+    logger.error(error instanceof Error ? error.stack || '' : '');
 
-            // Store the profiles
-            let sessionName = selectedApp;
-            if (selectedEnvironment) {
-                sessionName += ` [${selectedEnvironment}]`;
-            }
-            sessionName += ` (${selectedTimeRange.label})`;
-            profileStore.loadProfiles(profileEntries, sessionName);
-
-            // Show success message
-            const profileNames = profileEntries.map((e) => e.name).join(', ');
-            const fileCount = new Set(profileEntries.flatMap((e) => Array.from(e.metrics.keys())))
-                .size;
-
-            logger.info(
-                `✓ Loaded ${profileEntries.length} profiles (${profileNames}): ${fileCount} files`
-            );
-
-            vscode.window.showInformationMessage(
-                `Loaded ${profileEntries.length} profiles (${profileNames}): ${fileCount} files`
-            );
-        } catch (error) {
-            const errMsg = error instanceof Error ? error.message : String(error);
-            logger.error(`Failed to fetch profile: ${errMsg}`);
-            logger.error(error instanceof Error ? error.stack || '' : '');
-
-            let userMessage = `Failed to fetch profile: ${errMsg}`;
-            if (errMsg.includes('connect')) {
-                userMessage += '\n\nCheck server URL and network connectivity.';
-            } else if (errMsg.includes('401') || errMsg.includes('403')) {
-                userMessage += '\n\nCheck authentication token in settings.';
-            }
+    let userMessage = `Failed to fetch profile: ${errMsg}`;
+    if (errMsg.includes('connect')) {
+        userMessage += '\n\nCheck server URL and network connectivity.';
+    } else if (errMsg.includes('401') || errMsg.includes('403')) {
+        userMessage += '\n\nCheck authentication token in settings.';
+    }
 
-            vscode.window.showErrorMessage(userMessage);
-        }
-    });
+    vscode.window.showErrorMessage(userMessage);
 }
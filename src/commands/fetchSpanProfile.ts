@@ -0,0 +1,211 @@
+import * as vscode from 'vscode';
+import { ProfileStore, ProfileEntry } from '../state/profileStore';
+import { PyroscopeClient, ProfileType } from '../pyroscope/client';
+import { decompressBuffer } from '../parser/decompressor';
+import { parseProfile } from '../parser/pprofParser';
+import { collectFunctionLocations, mapFlameGraphToSource } from '../parser/flameGraphMapper';
+import { getLogger } from '../utils/logger';
+import { PathResolver } from '../utils/pathResolver';
+import { describeTimeRange, resolveTimeRange } from '../utils/timeRange';
+import { pickApplication, pickEnvironment, pickTimeRange } from './pickers';
+
+const SPAN_ID_PATTERN = /^[0-9a-f]{16}$/i;
+
+/**
+ * Split a pasted list of span IDs on commas and whitespace
+ */
+function parseSpanIds(input: string): string[] {
+    return input
+        .split(/[\s,]+/)
+        .map((id) => id.trim())
+        .filter((id) => id.length > 0);
+}
+
+export function registerFetchSpanProfileCommand(profileStore: ProfileStore): vscode.Disposable {
+    return vscode.commands.registerCommand('pyroscope.fetchSpanProfile', async () => {
+        const logger = getLogger();
+
+        try {
+            logger.info('=== Fetching Span Profile from Pyroscope ===');
+
+            const config = vscode.workspace.getConfiguration('pyroscope');
+            const serverUrl = config.get<string>('serverUrl', 'http://localhost:4040');
+            const authToken = config.get<string>('authToken', '');
+
+            if (!serverUrl) {
+                logger.error('Server URL not configured');
+                vscode.window.showErrorMessage('Please configure pyroscope.serverUrl in settings');
+                return;
+            }
+
+            const client = new PyroscopeClient(serverUrl, authToken);
+
+            const selectedApp = await pickApplication(client);
+            if (!selectedApp) {
+                return;
+            }
+
+            const environmentSelection = await pickEnvironment(client);
+            if (!environmentSelection) {
+                return;
+            }
+            const selectedEnvironment = environmentSelection.environment;
+
+            // Ask for the span IDs
+            const spanInput = await vscode.window.showInputBox({
+                prompt: 'OpenTelemetry span ID(s), separated by commas or spaces',
+                placeHolder: 'e.g. 00f067aa0ba902b7',
+                validateInput: (value) => {
+                    const ids = parseSpanIds(value);
+                    if (ids.length === 0) {
+                        return 'Enter at least one span ID';
+                    }
+                    const invalid = ids.find((id) => !SPAN_ID_PATTERN.test(id));
+                    return invalid ? `Not a span ID (16 hex characters): ${invalid}` : null;
+                },
+            });
+
+            if (!spanInput) {
+                logger.info('Span ID input cancelled');
+                return;
+            }
+
+            const spanIds = parseSpanIds(spanInput).map((id) => id.toLowerCase());
+            logger.info(`Span IDs: ${spanIds.join(', ')}`);
+
+            // The spans must fall inside the queried range
+            const timeRangeSpec = await pickTimeRange('Time range containing the spans');
+            if (!timeRangeSpec) {
+                return;
+            }
+            const timeRange = resolveTimeRange(timeRangeSpec, Math.floor(Date.now() / 1000));
+            const { from, to } = timeRange;
+
+            // Pick the profile type
+            let availableTypes: ProfileType[];
+            try {
+                availableTypes = await client.getProfileTypes(from, to);
+            } catch (error: any) {
+                logger.error(`Failed to fetch profile types: ${error.message}`);
+                vscode.window.showErrorMessage(`Failed to fetch profile types: ${error.message}`);
+                return;
+            }
+
+            const selectedType = await vscode.window.showQuickPick(
+                availableTypes.map((type) => ({
+                    label: type.name,
+                    description: `${type.sampleType}:${type.sampleUnit}`,
+                    profileType: type,
+                })),
+                { placeHolder: 'Select profile type (span profiling usually records CPU)' }
+            );
+
+            if (!selectedType) {
+                logger.info('Profile type selection cancelled');
+                return;
+            }
+
+            const type = selectedType.profileType;
+
+            const entry = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Fetching span profile',
+                    cancellable: false,
+                },
+                async (progress) => {
+                    progress.report({ message: 'Fetching span flame graph...' });
+
+                    // The span flame graph only has function names; the pprof supplies their source locations
+                    const [flameGraph, profileData] = await Promise.all([
+                        client.fetchSpanProfile(
+                            selectedApp,
+                            from,
+                            to,
+                            type.id,
+                            spanIds,
+                            selectedEnvironment
+                        ),
+                        client.fetchProfile(selectedApp, from, to, type.id, selectedEnvironment),
+                    ]);
+                    logger.info(
+                        `Span profile: ${flameGraph.names.length} functions, total=${flameGraph.total}`
+                    );
+
+                    if (flameGraph.total === 0) {
+                        return null;
+                    }
+
+                    progress.report({ message: 'Indexing workspace files...' });
+
+                    const parsed = await parseProfile(decompressBuffer(profileData));
+                    const pathResolver = new PathResolver(logger);
+                    await pathResolver.initialize();
+
+                    progress.report({ message: 'Mapping to source files...' });
+
+                    // Only the locations are kept: the pprof covers the whole service, not the spans
+                    const functionLocations = collectFunctionLocations(parsed);
+                    const metrics = mapFlameGraphToSource(
+                        flameGraph,
+                        functionLocations,
+                        pathResolver,
+                        type.sampleType,
+                        type.sampleUnit
+                    );
+
+                    return {
+                        name: type.name,
+                        typeId: type.id,
+                        sampleType: type.sampleType,
+                        unit: type.sampleUnit,
+                        metrics,
+                        functionLocations,
+                    } as ProfileEntry;
+                }
+            );
+
+            if (!entry) {
+                logger.warn('⚠ No samples recorded for these spans');
+                vscode.window.showWarningMessage(
+                    'No samples found for these spans. Check that span profiling is enabled and the time range covers them.'
+                );
+                return;
+            }
+
+            if (entry.metrics.size === 0) {
+                logger.warn('⚠ Span profile fetched but NO files matched');
+                vscode.window.showWarningMessage(
+                    'Span profile fetched but no files matched. Check Output for details.'
+                );
+                return;
+            }
+
+            let sessionName = selectedApp;
+            if (selectedEnvironment) {
+                sessionName += ` [${selectedEnvironment}]`;
+            }
+            sessionName +=
+                spanIds.length === 1 ? ` span ${spanIds[0]}` : ` ${spanIds.length} spans`;
+            sessionName += ` (${describeTimeRange(timeRangeSpec, timeRange)})`;
+
+            profileStore.loadProfiles([entry], sessionName, {
+                serverUrl,
+                appName: selectedApp,
+                environment: selectedEnvironment,
+                startTime: from,
+                endTime: to,
+                spanSelector: spanIds,
+            });
+
+            logger.info(`✓ Span profile loaded: ${entry.metrics.size} files with metrics`);
+            vscode.window.showInformationMessage(
+                `Loaded ${type.name} span profile (${entry.metrics.size} files)`
+            );
+        } catch (error) {
+            const errMsg = error instanceof Error ? error.message : String(error);
+            logger.error(`Failed to fetch span profile: ${errMsg}`);
+            vscode.window.showErrorMessage(`Failed to fetch span profile: ${errMsg}`);
+        }
+    });
+}
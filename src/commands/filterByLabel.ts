@@ -0,0 +1,173 @@
+import * as vscode from 'vscode';
+import { ProfileStore, ProfileEntry } from '../state/profileStore';
+import { ProfileMetrics, mapSamplesToSource, selectSampleType } from '../parser/sourceMapper';
+import {
+    SampleLabelFilter,
+    collectSampleLabels,
+    describeLabelFilter,
+    filterProfileByLabels,
+} from '../parser/labelFilter';
+import { ParsedProfile } from '../parser/pprofParser';
+import { getLogger } from '../utils/logger';
+import { PathResolver } from '../utils/pathResolver';
+
+/**
+ * Narrow the loaded profile to samples with chosen pprof label values (e.g. one HTTP
+ * route) and re-map the subset to source lines
+ */
+export function registerFilterByLabelCommand(profileStore: ProfileStore): vscode.Disposable {
+    return vscode.commands.registerCommand('pyroscope.filterByLabel', async () => {
+        const logger = getLogger();
+
+        // Entries whose metrics were mapped from pprof samples; span and diff metrics come
+        // from flame graphs and cannot be re-mapped
+        const entries = profileStore
+            .getSessionEntries()
+            .filter((entry) => (entry.sourceProfile || entry.profile) && !entry.isDiff);
+        if (entries.length === 0 || profileStore.getProfileInfo()?.query?.spanSelector) {
+            vscode.window.showInformationMessage(
+                'No profile with samples loaded. Load a pprof file or fetch a profile first.'
+            );
+            return;
+        }
+
+        // Union of label values across profile types, counting shared profiles once
+        const labels = new Map<string, Map<string, number>>();
+        const profiles = new Set(entries.map((entry) => entry.sourceProfile || entry.profile!));
+        profiles.forEach((profile) => {
+            collectSampleLabels(profile).forEach((values, key) => {
+                const merged = labels.get(key) || new Map<string, number>();
+                values.forEach((count, value) =>
+                    merged.set(value, (merged.get(value) || 0) + count)
+                );
+                labels.set(key, merged);
+            });
+        });
+
+        const currentFilter: SampleLabelFilter = entries[0].labelFilter || {};
+        const isFiltered = Object.keys(currentFilter).length > 0;
+
+        if (labels.size === 0 && !isFiltered) {
+            vscode.window.showInformationMessage(
+                'The loaded profile has no sample labels. Go pprof labels and Pyroscope tags show up here when the profile carries them.'
+            );
+            return;
+        }
+
+        const keyItems: (vscode.QuickPickItem & { key?: string })[] = Array.from(labels.entries())
+            .sort((a, b) => a[0].localeCompare(b[0]))
+            .map(([key, values]) => ({
+                label: key,
+                description: currentFilter[key]
+                    ? `= ${currentFilter[key].join(' | ')}`
+                    : `${values.size} values`,
+                key,
+            }));
+        if (isFiltered) {
+            keyItems.unshift({
+                label: '$(clear-all) Clear label filter',
+                description: describeLabelFilter(currentFilter),
+            });
+        }
+
+        const selectedKey = await vscode.window.showQuickPick(keyItems, {
+            placeHolder: 'Select a sample label to filter by',
+        });
+        if (!selectedKey) {
+            return;
+        }
+
+        let filter: SampleLabelFilter = {};
+        if (selectedKey.key) {
+            const key = selectedKey.key;
+            const values = labels.get(key)!;
+            const selectedValues = await vscode.window.showQuickPick(
+                Array.from(values.entries())
+                    .sort((a, b) => b[1] - a[1])
+                    .map(([value, count]) => ({
+                        label: value,
+                        description: `${count} samples`,
+                        picked: currentFilter[key]?.includes(value) || false,
+                    })),
+                {
+                    placeHolder: `Keep samples where ${key} is one of (none selected removes the ${key} filter)`,
+                    canPickMany: true,
+                }
+            );
+            if (!selectedValues) {
+                return;
+            }
+
+            filter = { ...currentFilter, [key]: selectedValues.map((item) => item.label) };
+            if (selectedValues.length === 0) {
+                delete filter[key];
+            }
+        }
+
+        const description = describeLabelFilter(filter);
+        logger.info(`=== Filtering profile by labels: ${description || '(none)'} ===`);
+
+        try {
+            const filtered = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Filtering profile by labels',
+                    cancellable: false,
+                },
+                async () => {
+                    const pathResolver = new PathResolver(logger);
+                    await pathResolver.initialize();
+
+                    // Entries split from one multi-type file share its profile; filter and map it once
+                    const results = new Map<
+                        ParsedProfile,
+                        Promise<{ profile: ParsedProfile; metrics: ProfileMetrics }>
+                    >();
+                    const filterOnce = (sourceProfile: ParsedProfile) => {
+                        let result = results.get(sourceProfile);
+                        if (!result) {
+                            const profile = filterProfileByLabels(sourceProfile, filter);
+                            logger.info(
+                                `  ${profile.samples.length}/${sourceProfile.samples.length} samples match`
+                            );
+                            result = mapSamplesToSource(profile, pathResolver).then((metrics) => ({
+                                profile,
+                                metrics,
+                            }));
+                            results.set(sourceProfile, result);
+                        }
+                        return result;
+                    };
+
+                    return Promise.all(
+                        entries.map(async (entry): Promise<ProfileEntry> => {
+                            const sourceProfile = entry.sourceProfile || entry.profile!;
+                            const { profile, metrics } = await filterOnce(sourceProfile);
+                            const hasFilter = profile !== sourceProfile;
+                            return {
+                                ...entry,
+                                metrics: selectSampleType(metrics, entry.sampleType),
+                                profile,
+                                labelFilter: hasFilter ? filter : undefined,
+                                sourceProfile: hasFilter ? sourceProfile : undefined,
+                            };
+                        })
+                    );
+                }
+            );
+
+            profileStore.updateEntries(filtered);
+
+            const fileCount = new Set(filtered.flatMap((e) => Array.from(e.metrics.keys()))).size;
+            vscode.window.showInformationMessage(
+                description
+                    ? `Filtered by ${description}: ${fileCount} files`
+                    : `Label filter cleared: ${fileCount} files`
+            );
+        } catch (error) {
+            const errMsg = error instanceof Error ? error.message : String(error);
+            logger.error(`Failed to filter profile: ${errMsg}`);
+            vscode.window.showErrorMessage(`Failed to filter profile: ${errMsg}`);
+        }
+    });
+}
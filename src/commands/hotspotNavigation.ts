@@ -0,0 +1,217 @@
+import * as vscode from 'vscode';
+import { ProfileStore, ProfileEntry } from '../state/profileStore';
+import { FileMetrics, getSampleValue } from '../parser/sourceMapper';
+import { formatPercent } from '../decorations/hintRenderer';
+
+// How long to wait for a newly opened file's lines to be remapped to the working copy
+const LINE_MAPPING_TIMEOUT_MS = 5000;
+
+interface Hotspot {
+    filePath: string;
+    line: number; // 1-indexed
+    profiledLine: number; // Line in the profiled revision, the same when not remapped
+    percent: number; // Highest percentage across displayed profile types
+    profileName: string; // Profile type the percentage comes from
+}
+
+/**
+ * Register next/previous hotspot commands for the current file (in line order)
+ * and the whole workspace (ranked by value)
+ */
+export function registerHotspotNavigationCommands(profileStore: ProfileStore): vscode.Disposable {
+    let workspaceIndex = -1;
+
+    const moveInFile = (direction: 1 | -1) => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || !checkProfileLoaded(profileStore)) {
+            return;
+        }
+
+        const hotspots = collectHotspots(profileStore, editor.document.uri.fsPath).sort(
+            (a, b) => a.line - b.line
+        );
+        if (hotspots.length === 0) {
+            vscode.window.setStatusBarMessage('No hotspots above the threshold in this file', 3000);
+            return;
+        }
+
+        // Wrap around like next/previous problem
+        const current = editor.selection.active.line + 1;
+        const target =
+            direction === 1
+                ? hotspots.find((h) => h.line > current) || hotspots[0]
+                : [...hotspots].reverse().find((h) => h.line < current) ||
+                  hotspots[hotspots.length - 1];
+
+        revealHotspot(editor, target);
+        showPosition(target, hotspots.indexOf(target), hotspots.length);
+    };
+
+    const moveInWorkspace = async (direction: 1 | -1) => {
+        if (!checkProfileLoaded(profileStore)) {
+            return;
+        }
+
+        const hotspots = collectHotspots(profileStore).sort((a, b) => b.percent - a.percent);
+        if (hotspots.length === 0) {
+            vscode.window.setStatusBarMessage('No hotspots above the threshold', 3000);
+            return;
+        }
+
+        // Continue from the hotspot under the cursor, if any
+        const editor = vscode.window.activeTextEditor;
+        const isAtCursor = (h: Hotspot | undefined) =>
+            !!h &&
+            !!editor &&
+            h.line === editor.selection.active.line + 1 &&
+            h.filePath === editor.document.uri.fsPath;
+        if (!isAtCursor(hotspots[workspaceIndex])) {
+            const atCursor = hotspots.findIndex(isAtCursor);
+            workspaceIndex = atCursor !== -1 ? atCursor : direction === 1 ? -1 : 0;
+        }
+
+        workspaceIndex = (workspaceIndex + direction + hotspots.length) % hotspots.length;
+        const target = hotspots[workspaceIndex];
+
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(target.filePath));
+        const targetEditor = await vscode.window.showTextDocument(document);
+
+        // Files not shown before only get their lines remapped once opened
+        const filePath = document.uri.fsPath;
+        await whenLineMappingReady(profileStore, filePath);
+        target.line = findWorkingCopyLine(profileStore, filePath, target);
+        revealHotspot(targetEditor, target);
+        showPosition(target, workspaceIndex, hotspots.length);
+    };
+
+    return vscode.Disposable.from(
+        vscode.commands.registerCommand('pyroscope.nextHotspot', () => moveInFile(1)),
+        vscode.commands.registerCommand('pyroscope.previousHotspot', () => moveInFile(-1)),
+        vscode.commands.registerCommand('pyroscope.nextWorkspaceHotspot', () => moveInWorkspace(1)),
+        vscode.commands.registerCommand('pyroscope.previousWorkspaceHotspot', () =>
+            moveInWorkspace(-1)
+        )
+    );
+}
+
+/**
+ * Collect lines above the threshold for the displayed profile types, keeping the
+ * highest percentage when several types mark the same line
+ * @param filePath - Limit to one file; all files with metrics otherwise
+ */
+function collectHotspots(profileStore: ProfileStore, filePath?: string): Hotspot[] {
+    const config = vscode.workspace.getConfiguration('pyroscope');
+    const threshold = config.get<number>('threshold', 1.0);
+    const displayProfiles = config.get<string[]>('displayProfiles', []);
+    const names =
+        displayProfiles.length > 0 ? displayProfiles : profileStore.getLoadedProfileNames();
+
+    const hotspots = new Map<string, Hotspot>();
+    const add = (entry: ProfileEntry, path: string, fileMetrics: FileMetrics) => {
+        fileMetrics.forEach((metrics, line) => {
+            const { percent } = getSampleValue(metrics, entry.sampleType);
+            if (percent < threshold) {
+                return;
+            }
+
+            const key = `${path}:${line}`;
+            const existing = hotspots.get(key);
+            if (!existing || percent > existing.percent) {
+                hotspots.set(key, {
+                    filePath: path,
+                    line,
+                    profiledLine: metrics.originalLine ?? line,
+                    percent,
+                    profileName: entry.name,
+                });
+            }
+        });
+    };
+
+    names.forEach((name) => {
+        const entry = profileStore.getProfileEntry(name);
+        if (!entry) {
+            return;
+        }
+
+        if (filePath) {
+            const fileMetrics = profileStore.getMetricsForProfile(name, filePath);
+            if (fileMetrics) {
+                add(entry, filePath, fileMetrics);
+            }
+        } else {
+            profileStore
+                .getEntryMetrics(name)
+                .forEach((fileMetrics, path) => add(entry, path, fileMetrics));
+        }
+    });
+
+    return Array.from(hotspots.values());
+}
+
+/**
+ * Wait until a file's lines are remapped to the working copy, or the timeout passes
+ */
+function whenLineMappingReady(profileStore: ProfileStore, filePath: string): Promise<void> {
+    if (!profileStore.isLineMappingPending(filePath)) {
+        return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+        const done = () => {
+            clearTimeout(timer);
+            subscription.dispose();
+            resolve();
+        };
+        const timer = setTimeout(done, LINE_MAPPING_TIMEOUT_MS);
+        const subscription = profileStore.onLineMappingChanged(() => {
+            if (!profileStore.isLineMappingPending(filePath)) {
+                done();
+            }
+        });
+    });
+}
+
+/**
+ * Find where a hotspot's profiled line is now, or the line in its place if it was removed
+ */
+function findWorkingCopyLine(
+    profileStore: ProfileStore,
+    filePath: string,
+    hotspot: Hotspot
+): number {
+    const fileMetrics = profileStore.getMetricsForProfile(hotspot.profileName, filePath);
+    for (const [line, metrics] of fileMetrics || []) {
+        if ((metrics.originalLine ?? line) === hotspot.profiledLine) {
+            return line;
+        }
+    }
+
+    const removed = profileStore
+        .getRemovedLines(hotspot.profileName, filePath)
+        .find((metrics) => metrics.originalLine === hotspot.profiledLine);
+    return removed?.line ?? hotspot.line;
+}
+
+function checkProfileLoaded(profileStore: ProfileStore): boolean {
+    if (!profileStore.hasProfile()) {
+        vscode.window.showInformationMessage('No profile loaded');
+        return false;
+    }
+    return true;
+}
+
+function revealHotspot(editor: vscode.TextEditor, hotspot: Hotspot): void {
+    const position = new vscode.Position(hotspot.line - 1, 0);
+    editor.selection = new vscode.Selection(position, position);
+    editor.revealRange(
+        new vscode.Range(position, position),
+        vscode.TextEditorRevealType.InCenterIfOutsideViewport
+    );
+}
+
+function showPosition(hotspot: Hotspot, index: number, count: number): void {
+    vscode.window.setStatusBarMessage(
+        `Hotspot ${index + 1}/${count}: ${formatPercent(hotspot.percent)} ${hotspot.profileName}`,
+        5000
+    );
+}
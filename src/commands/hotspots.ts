@@ -0,0 +1,14 @@
+import * as vscode from 'vscode';
+import { HotspotRanking } from '../views/hotspotsView';
+
+export function registerToggleHotspotRankingCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('pyroscope.toggleHotspotRanking', async () => {
+        const config = vscode.workspace.getConfiguration('pyroscope');
+        const current = config.get<HotspotRanking>('hotspots.rankBy', 'self');
+        await config.update(
+            'hotspots.rankBy',
+            current === 'self' ? 'cumulative' : 'self',
+            vscode.ConfigurationTarget.Global
+        );
+    });
+}
@@ -0,0 +1,45 @@
+import * as vscode from 'vscode';
+import { ProfileStore } from '../state/profileStore';
+import { LiveSession } from '../state/liveSession';
+
+/**
+ * Start live mode for the loaded session, or pause / resume it once running
+ */
+export function registerToggleLiveModeCommand(
+    profileStore: ProfileStore,
+    liveSession: LiveSession
+): vscode.Disposable {
+    return vscode.commands.registerCommand('pyroscope.toggleLiveMode', () => {
+        if (liveSession.isActive()) {
+            if (liveSession.isPaused()) {
+                liveSession.resume();
+                vscode.window.showInformationMessage('Live mode resumed');
+            } else {
+                liveSession.pause();
+                vscode.window.showInformationMessage('Live mode paused');
+            }
+            return;
+        }
+
+        if (!profileStore.hasProfile()) {
+            vscode.window.showInformationMessage(
+                'No profile loaded. Fetch a profile from Pyroscope first.'
+            );
+            return;
+        }
+
+        if (!liveSession.start()) {
+            vscode.window.showInformationMessage(
+                'Live mode is only available for profiles fetched from Pyroscope (not files, span profiles or deploy comparisons).'
+            );
+            return;
+        }
+
+        const interval = vscode.workspace
+            .getConfiguration('pyroscope')
+            .get<number>('liveRefreshInterval', 30);
+        vscode.window.showInformationMessage(
+            `Live mode started: refreshing ${profileStore.getProfileInfo()!.name} every ${interval}s`
+        );
+    });
+}
@@ -1,9 +1,9 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { ProfileStore } from '../state/profileStore';
+import { ProfileStore, ProfileEntry } from '../state/profileStore';
 import { decompressProfile } from '../parser/decompressor';
-import { parseProfile } from '../parser/pprofParser';
-import { mapSamplesToSource } from '../parser/sourceMapper';
+import { FileProfile, detectProfileFormat, parseProfileData } from '../parser/profileFormat';
+import { ProfileMetrics, mapSamplesToSource, selectSampleType } from '../parser/sourceMapper';
 import { getLogger, shouldLogDebug } from '../utils/logger';
 import { PathResolver } from '../utils/pathResolver';
 
@@ -19,7 +19,16 @@ export function registerLoadProfileCommand(profileStore: ProfileStore): vscode.D
                 canSelectMany: false,
                 filters: {
                     // eslint-disable-next-line @typescript-eslint/naming-convention
-                    'Profile Files': ['pb.gz', 'pb', 'pprof'],
+                    'Profile Files': [
+                        'pb.gz',
+                        'pb',
+                        'pprof',
+                        'folded',
+                        'collapsed',
+                        'txt',
+                        'cpuprofile',
+                        'json',
+                    ],
                     // eslint-disable-next-line @typescript-eslint/naming-convention
                     'All Files': ['*'],
                 },
@@ -49,22 +58,46 @@ export function registerLoadProfileCommand(profileStore: ProfileStore): vscode.D
                     const decompressed = await decompressProfile(filePath);
                     logger.info(`Decompressed: ${decompressed.length} bytes`);
 
-                    progress.report({ message: 'Parsing profile...' });
+                    // Detect the format by content, whatever the extension
+                    const format = detectProfileFormat(decompressed);
+                    logger.info(`Format: ${format}`);
 
-                    // Parse the protobuf
-                    const parsed = await parseProfile(decompressed);
-                    logger.info(
-                        `Parsed: ${parsed.samples.length} samples, ${parsed.functions.size} functions`
-                    );
+                    progress.report({ message: 'Parsing profile...' });
+                    const profiles = await parseProfileData(decompressed, format);
+                    profiles.forEach(({ name, profile }) => {
+                        logger.info(
+                            `Parsed${name ? ` ${name}` : ''}: ${profile.samples.length} samples, ${profile.functions.size} functions`
+                        );
+                        if (profile.sampleTypes.length === 0) {
+                            throw new Error('Profile has no sample types');
+                        }
+                    });
 
-                    progress.report({ message: 'Mapping to source files...' });
+                    progress.report({ message: 'Indexing workspace files...' });
 
                     // Map samples to source locations with PathResolver
                     const pathResolver = new PathResolver(logger);
-                    const metrics = await mapSamplesToSource(parsed, pathResolver);
+                    await pathResolver.initialize();
+
+                    progress.report({ message: 'Mapping to source files...' });
+                    const entries: ProfileEntry[] = [];
+                    for (const fileProfile of profiles) {
+                        const metrics = await mapSamplesToSource(fileProfile.profile, pathResolver);
+                        entries.push(...createFileEntries(fileProfile, metrics, entries));
+                    }
+
+                    const annotatedLines = new Set<string>();
+                    entries.forEach((entry) =>
+                        entry.metrics.forEach((fileMetrics, file) =>
+                            fileMetrics.forEach((_, line) => annotatedLines.add(`${file}:${line}`))
+                        )
+                    );
+                    const fileCount = new Set(
+                        entries.flatMap((entry) => Array.from(entry.metrics.keys()))
+                    ).size;
 
                     // Check results
-                    if (metrics.size === 0) {
+                    if (fileCount === 0) {
                         logger.warn('⚠ Profile loaded but NO files matched!');
                         logger.info('💡 Possible reasons:');
                         logger.info("   - Paths in profile don't match local workspace");
@@ -88,21 +121,16 @@ export function registerLoadProfileCommand(profileStore: ProfileStore): vscode.D
                             );
                         }
                     } else {
-                        const fileCount = metrics.size;
-                        let totalLines = 0;
-                        metrics.forEach((fileMetrics) => {
-                            totalLines += fileMetrics.size;
-                        });
-
+                        const totalLines = annotatedLines.size;
                         logger.info(`✓ SUCCESS: ${fileCount} files, ${totalLines} annotated lines`);
 
                         vscode.window.showInformationMessage(
-                            `Profile loaded: ${fileCount} files, ${totalLines} annotated lines`
+                            `Profile loaded: ${fileCount} files, ${totalLines} annotated lines (${entries.map((entry) => entry.name).join(', ')})`
                         );
                     }
 
-                    // Store the profile
-                    profileStore.loadProfile(metrics, fileName);
+                    // Store one entry per sample type, like a multi-type fetch from Pyroscope
+                    profileStore.loadProfiles(entries, fileName);
                 }
             );
         } catch (error) {
@@ -114,3 +142,39 @@ export function registerLoadProfileCommand(profileStore: ProfileStore): vscode.D
         }
     });
 }
+
+/**
+ * Split a profile into one entry per sample type, e.g. alloc_objects, alloc_space,
+ * inuse_objects and inuse_space for a Go heap profile. Profiles named in the file
+ * (speedscope threads) are named after it.
+ * @param existing - Entries already created from the same file, whose names are taken
+ */
+function createFileEntries(
+    fileProfile: FileProfile,
+    metrics: ProfileMetrics,
+    existing: ProfileEntry[]
+): ProfileEntry[] {
+    const { name, profile } = fileProfile;
+    const taken = new Set(existing.map((entry) => entry.name));
+
+    return profile.sampleTypes.map((st) => {
+        let baseName = st.type;
+        if (name) {
+            baseName = profile.sampleTypes.length > 1 ? `${name} ${st.type}` : name;
+        }
+        let entryName = baseName;
+        for (let n = 2; taken.has(entryName); n++) {
+            entryName = `${baseName} (${n})`;
+        }
+        taken.add(entryName);
+
+        return {
+            name: entryName,
+            typeId: `file:${st.type}:${st.unit}`,
+            sampleType: st.type,
+            unit: st.unit,
+            metrics: selectSampleType(metrics, st.type),
+            profile,
+        };
+    });
+}
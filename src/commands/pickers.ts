@@ -0,0 +1,379 @@
+import * as vscode from 'vscode';
+import { PyroscopeClient } from '../pyroscope/client';
+import {
+    LabelMatcher,
+    MATCH_OPERATORS,
+    buildLabelSelector,
+    formatLabelMatcher,
+    formatLabelSelector,
+    parseLabelSelector,
+    validateLabelSelector,
+    validateMatcherValue,
+} from '../pyroscope/labelSelector';
+import { getLogger, shouldLogDebug } from '../utils/logger';
+import { TimeRangeSpec, parseDuration, parseTimeExpression } from '../utils/timeRange';
+
+/**
+ * Show the application picker, with the workspace's repo name first if the server knows it
+ * @returns The selected service name, or undefined if cancelled or the server is unreachable
+ */
+export async function pickApplication(client: PyroscopeClient): Promise<string | undefined> {
+    const logger = getLogger();
+
+    // Test connection and get apps
+    let apps: string[];
+    try {
+        logger.info('Fetching application list...');
+        apps = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: 'Connecting to Pyroscope...',
+                cancellable: false,
+            },
+            async () => await client.getApplications()
+        );
+        logger.info(`Found ${apps.length} applications`);
+
+        if (shouldLogDebug()) {
+            logger.debug(`Applications: ${apps.join(', ')}`);
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(`Failed to fetch applications: ${message}`);
+        vscode.window.showErrorMessage(`Failed to connect to Pyroscope: ${message}`);
+        return undefined;
+    }
+
+    if (apps.length === 0) {
+        logger.warn('No applications found on server');
+        vscode.window.showWarningMessage('No applications found in Pyroscope');
+        return undefined;
+    }
+
+    // Sort apps to put repo name first if it exists
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (workspaceFolders && workspaceFolders.length > 0) {
+        const repoName = workspaceFolders[0].name;
+        const repoIndex = apps.indexOf(repoName);
+        if (repoIndex > 0) {
+            // Move repo name to front
+            apps.splice(repoIndex, 1);
+            apps.unshift(repoName);
+            logger.debug(`Moved ${repoName} to front of application list`);
+        }
+    }
+
+    const selectedApp = await vscode.window.showQuickPick(apps, {
+        placeHolder: 'Select an application',
+    });
+
+    if (!selectedApp) {
+        logger.info('Application selection cancelled');
+        return undefined;
+    }
+
+    logger.info(`Selected application: ${selectedApp}`);
+    return selectedApp;
+}
+
+/**
+ * Show the deployment environment picker if the server reports any environments
+ * @returns The selection (environment is undefined for "All Environments"), or undefined if cancelled
+ */
+export async function pickEnvironment(
+    client: PyroscopeClient
+): Promise<{ environment?: string } | undefined> {
+    const logger = getLogger();
+
+    // Get available environments
+    let environments: string[];
+    try {
+        logger.info('Fetching environments...');
+        environments = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: 'Fetching environments...',
+                cancellable: false,
+            },
+            async () => await client.getEnvironments()
+        );
+        logger.info(`Found ${environments.length} environments`);
+
+        if (shouldLogDebug()) {
+            logger.debug(`Environments: ${environments.join(', ')}`);
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(`Failed to fetch environments: ${message}`);
+        // Continue without environment filter if this fails
+        environments = [];
+    }
+
+    if (environments.length === 0) {
+        logger.info('No environments available, skipping environment selection');
+        return {};
+    }
+
+    // Add an "All Environments" option
+    const envOptions = ['All Environments', ...environments];
+
+    const selectedEnv = await vscode.window.showQuickPick(envOptions, {
+        placeHolder: 'Select deployment environment',
+    });
+
+    if (!selectedEnv) {
+        logger.info('Environment selection cancelled');
+        return undefined;
+    }
+
+    if (selectedEnv === 'All Environments') {
+        logger.info('Selected all environments (no filter)');
+        return {};
+    }
+
+    logger.info(`Selected environment: ${selectedEnv}`);
+    return { environment: selectedEnv };
+}
+
+/**
+ * Let the user build additional label matchers, step by step (label names and values
+ * are discovered from the server) or by typing a selector
+ * @param range - Time range to be fetched, in seconds; labels are discovered within it
+ * @returns The matchers (empty for no filters), or undefined if cancelled
+ */
+export async function pickLabelMatchers(
+    client: PyroscopeClient,
+    appName: string,
+    environment: string | undefined,
+    range: { startTime: number; endTime: number }
+): Promise<LabelMatcher[] | undefined> {
+    const logger = getLogger();
+    let matchers: LabelMatcher[] = [];
+
+    for (;;) {
+        const selector = buildLabelSelector(appName, environment, matchers);
+        const items: (vscode.QuickPickItem & {
+            action: 'done' | 'add' | 'edit' | 'remove';
+            index?: number;
+        })[] = [
+            {
+                label:
+                    matchers.length > 0
+                        ? '$(check) Use this selector'
+                        : '$(check) No additional label filters',
+                description: selector,
+                action: 'done',
+            },
+            { label: '$(add) Add label filter...', action: 'add' },
+            {
+                label: '$(edit) Enter selector...',
+                description: 'e.g. {region="eu-west-1",pod=~"api-.*"}',
+                action: 'edit',
+            },
+            ...matchers.map((matcher, index) => ({
+                label: `$(close) Remove ${formatLabelMatcher(matcher)}`,
+                action: 'remove' as const,
+                index,
+            })),
+        ];
+
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Filter by labels (optional)',
+        });
+
+        if (!picked) {
+            logger.info('Label selection cancelled');
+            return undefined;
+        }
+
+        if (picked.action === 'done') {
+            logger.info(`Label selector: ${selector}`);
+            return matchers;
+        } else if (picked.action === 'add') {
+            const matcher = await pickLabelMatcher(client, selector, range);
+            if (matcher) {
+                matchers = [...matchers, matcher];
+            }
+        } else if (picked.action === 'edit') {
+            const input = await vscode.window.showInputBox({
+                prompt: 'Additional label matchers (service and environment are already applied)',
+                value: formatLabelSelector(matchers),
+                validateInput: validateLabelSelector,
+            });
+            if (input !== undefined) {
+                matchers = parseLabelSelector(input);
+            }
+        } else {
+            matchers = matchers.filter((_, index) => index !== picked.index);
+        }
+    }
+}
+
+/**
+ * Pick a label name, operator and value, completing names and values from the server
+ * @param selector - Current selector, used to only offer labels and values that exist
+ * @param range - Time range the labels and values must have data in
+ * @returns The matcher, or undefined if cancelled
+ */
+async function pickLabelMatcher(
+    client: PyroscopeClient,
+    selector: string,
+    range: { startTime: number; endTime: number }
+): Promise<LabelMatcher | undefined> {
+    const logger = getLogger();
+
+    let names: string[];
+    try {
+        names = await client.getLabelNames([selector], range);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(`Failed to fetch label names: ${message}`);
+        vscode.window.showErrorMessage(`Failed to fetch label names: ${message}`);
+        return undefined;
+    }
+
+    // Service and environment have their own pickers
+    const name = await vscode.window.showQuickPick(
+        names.filter((n) => n !== 'service_name' && n !== 'deployment_environment'),
+        { placeHolder: 'Select label' }
+    );
+    if (!name) {
+        return undefined;
+    }
+
+    const operator = await vscode.window.showQuickPick(
+        MATCH_OPERATORS.map((op) => ({ label: op.operator, description: op.description })),
+        { placeHolder: `${name} ...` }
+    );
+    if (!operator) {
+        return undefined;
+    }
+
+    let values: string[] = [];
+    try {
+        values = await client.getLabelValues(name, [selector], range);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        // Values can still be typed without suggestions
+        logger.warn(`Failed to fetch values for ${name}: ${message}`);
+    }
+
+    const matcher: LabelMatcher = {
+        name,
+        operator: operator.label as LabelMatcher['operator'],
+        value: '',
+    };
+
+    if ((matcher.operator === '=' || matcher.operator === '!=') && values.length > 0) {
+        const value = await vscode.window.showQuickPick(values, {
+            placeHolder: `${name}${matcher.operator}`,
+        });
+        if (value === undefined) {
+            return undefined;
+        }
+        matcher.value = value;
+    } else if (matcher.operator === '=' || matcher.operator === '!=') {
+        const value = await vscode.window.showInputBox({
+            prompt: `Value for ${name}${matcher.operator} (no values found on the server)`,
+        });
+        if (value === undefined) {
+            return undefined;
+        }
+        matcher.value = value;
+    } else {
+        const value = await vscode.window.showInputBox({
+            prompt: `Regular expression for ${name}${matcher.operator}`,
+            placeHolder: values.slice(0, 5).join('|'),
+            validateInput: (input) => validateMatcherValue({ ...matcher, value: input }),
+        });
+        if (value === undefined) {
+            return undefined;
+        }
+        matcher.value = value;
+    }
+
+    return matcher;
+}
+
+/**
+ * Show the time range picker: presets ending now, a custom duration or an absolute/relative range
+ * @param placeHolder - Placeholder of the preset picker
+ * @returns The range as entered (resolve it with resolveTimeRange), or undefined if cancelled
+ */
+export async function pickTimeRange(
+    placeHolder: string = 'Select time range'
+): Promise<TimeRangeSpec | undefined> {
+    const logger = getLogger();
+
+    const timeRanges: (vscode.QuickPickItem & { spec?: TimeRangeSpec; custom?: 'duration' })[] = [
+        { label: 'Last 1 hour', spec: { from: 'now-1h', to: 'now', label: 'Last 1 hour' } },
+        { label: 'Last 6 hours', spec: { from: 'now-6h', to: 'now', label: 'Last 6 hours' } },
+        { label: 'Last 24 hours', spec: { from: 'now-24h', to: 'now', label: 'Last 24 hours' } },
+        { label: 'Last 7 days', spec: { from: 'now-7d', to: 'now', label: 'Last 7 days' } },
+        { label: 'Custom duration...', description: 'e.g. 90m, 2d', custom: 'duration' },
+        {
+            label: 'Custom range...',
+            description: 'e.g. 2026-10-12 14:00 UTC to 2026-10-12 14:30 UTC, or now-3d to now-2d',
+        },
+    ];
+
+    const selected = await vscode.window.showQuickPick(timeRanges, { placeHolder });
+    if (!selected) {
+        logger.info('Time range selection cancelled');
+        return undefined;
+    }
+
+    if (selected.spec) {
+        logger.info(`Time range: ${selected.label}`);
+        return selected.spec;
+    }
+
+    if (selected.custom === 'duration') {
+        const input = await vscode.window.showInputBox({
+            prompt: 'Duration back from now (e.g. 30m, 90m, 1h30m, 3d, 2w)',
+            validateInput: (value) =>
+                parseDuration(value) === null ? 'Not a valid duration' : null,
+        });
+        if (!input) {
+            logger.info('Duration input cancelled');
+            return undefined;
+        }
+
+        const duration = input.trim().toLowerCase();
+        logger.info(`Time range: last ${duration}`);
+        return { from: `now-${duration}`, to: 'now', label: `Last ${duration}` };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const fromInput = await vscode.window.showInputBox({
+        prompt: 'From (e.g. 2026-10-12 14:00 UTC, 2026-10-12T14:00:00Z, now-3d or unix seconds)',
+        value: 'now-1h',
+        validateInput: (value) =>
+            parseTimeExpression(value, now) === null ? 'Not a valid time' : null,
+    });
+    if (!fromInput) {
+        logger.info('Time range input cancelled');
+        return undefined;
+    }
+    const from = parseTimeExpression(fromInput, now)!;
+
+    const toInput = await vscode.window.showInputBox({
+        prompt: `To (after ${new Date(from * 1000).toISOString()})`,
+        value: 'now',
+        validateInput: (value) => {
+            const to = parseTimeExpression(value, now);
+            if (to === null) {
+                return 'Not a valid time';
+            }
+            return to <= from ? 'Must be after the start of the range' : null;
+        },
+    });
+    if (!toInput) {
+        logger.info('Time range input cancelled');
+        return undefined;
+    }
+
+    const spec = { from: fromInput.trim(), to: toInput.trim() };
+    logger.info(`Time range: ${spec.from} to ${spec.to}`);
+    return spec;
+}
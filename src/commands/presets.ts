@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+import { ProfileStore } from '../state/profileStore';
+import {
+    getFetchPresets,
+    findFetchPreset,
+    getLastFetch,
+    saveFetchPreset,
+} from '../state/fetchPresets';
+import { getLogger } from '../utils/logger';
+import { executeFetch } from './fetchFromPyroscope';
+
+export function registerRerunLastFetchCommand(
+    profileStore: ProfileStore,
+    workspaceState: vscode.Memento
+): vscode.Disposable {
+    return vscode.commands.registerCommand('pyroscope.rerunLastFetch', async () => {
+        const lastFetch = getLastFetch(workspaceState);
+        if (!lastFetch) {
+            vscode.window.showInformationMessage(
+                'No previous fetch in this workspace. Run "Pyroscope: Fetch Profile from Pyroscope" first.'
+            );
+            return;
+        }
+
+        getLogger().info('=== Re-running Last Fetch ===');
+        await executeFetch(profileStore, workspaceState, lastFetch);
+    });
+}
+
+export function registerRunPresetCommand(
+    profileStore: ProfileStore,
+    workspaceState: vscode.Memento
+): vscode.Disposable {
+    return vscode.commands.registerCommand('pyroscope.runPreset', async (name?: string) => {
+        const presets = getFetchPresets();
+        if (presets.length === 0) {
+            vscode.window.showInformationMessage(
+                'No presets saved. Use "Pyroscope: Save Last Fetch as Preset" or add them to pyroscope.queryPresets.'
+            );
+            return;
+        }
+
+        let preset = name ? findFetchPreset(name) : undefined;
+        if (!preset) {
+            const selected = await vscode.window.showQuickPick(
+                presets.map((p) => ({
+                    label: p.name,
+                    description: [p.appName, p.environment, p.labelSelector]
+                        .filter(Boolean)
+                        .join(' '),
+                    detail: `${p.timeRange.label || `${p.timeRange.from} to ${p.timeRange.to}`} · ${p.profileTypes.length} profile types`,
+                    preset: p,
+                })),
+                { placeHolder: 'Select a preset to fetch' }
+            );
+            if (!selected) {
+                return;
+            }
+            preset = selected.preset;
+        }
+
+        getLogger().info(`=== Running Preset: ${preset.name} ===`);
+        await executeFetch(profileStore, workspaceState, preset);
+    });
+}
+
+export function registerSavePresetCommand(workspaceState: vscode.Memento): vscode.Disposable {
+    return vscode.commands.registerCommand('pyroscope.savePreset', async () => {
+        const lastFetch = getLastFetch(workspaceState);
+        if (!lastFetch) {
+            vscode.window.showInformationMessage(
+                'No previous fetch to save. Run "Pyroscope: Fetch Profile from Pyroscope" first.'
+            );
+            return;
+        }
+
+        const name = await vscode.window.showInputBox({
+            prompt: 'Preset name',
+            value: lastFetch.environment
+                ? `${lastFetch.appName} [${lastFetch.environment}]`
+                : lastFetch.appName,
+            validateInput: (value) => (value.trim() ? null : 'Enter a name'),
+        });
+        if (!name) {
+            return;
+        }
+
+        if (findFetchPreset(name.trim())) {
+            const overwrite = await vscode.window.showWarningMessage(
+                `A preset named "${name.trim()}" already exists. Overwrite it?`,
+                'Overwrite'
+            );
+            if (overwrite !== 'Overwrite') {
+                return;
+            }
+        }
+
+        await saveFetchPreset({ ...lastFetch, name: name.trim() });
+        getLogger().info(`Saved preset: ${name.trim()}`);
+        vscode.window.showInformationMessage(
+            `Saved preset "${name.trim()}". Bind it to a key with the command pyroscope.fetchFromPyroscope and args "${name.trim()}".`
+        );
+    });
+}
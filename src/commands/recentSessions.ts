@@ -0,0 +1,38 @@
+import * as vscode from 'vscode';
+import { ProfileStore } from '../state/profileStore';
+import { SessionHistory } from '../state/sessionHistory';
+
+export function registerRecentSessionsCommand(
+    profileStore: ProfileStore,
+    sessionHistory: SessionHistory
+): vscode.Disposable {
+    return vscode.commands.registerCommand('pyroscope.recentSessions', async () => {
+        const sessions = sessionHistory.getSessions();
+        if (sessions.length === 0) {
+            vscode.window.showInformationMessage(
+                'No recent sessions. Load or fetch a profile first.'
+            );
+            return;
+        }
+
+        const currentId = profileStore.getProfileInfo()?.id;
+        const selected = await vscode.window.showQuickPick(
+            sessions.map((session) => ({
+                label: session.info.name,
+                description: session.info.id === currentId ? '(current)' : undefined,
+                detail: `${session.profileNames.join(', ')} · ${session.fileCount} files · ${new Date(session.info.timestamp).toLocaleString()}`,
+                id: session.info.id,
+            })),
+            { placeHolder: 'Select a session to load' }
+        );
+        if (!selected || selected.id === currentId) {
+            return;
+        }
+
+        if (!(await sessionHistory.restore(selected.id))) {
+            vscode.window.showErrorMessage(
+                `Failed to restore session "${selected.label}". Check Output for details.`
+            );
+        }
+    });
+}
@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+import { ProfileStore } from '../state/profileStore';
+import { collectSampleLabels } from '../parser/labelFilter';
+import { PyroscopeClient } from '../pyroscope/client';
+import { buildLabelSelector } from '../pyroscope/labelSelector';
+import { resolveRevision, shortRevision } from '../utils/git';
+import { getLogger } from '../utils/logger';
+
+// Labels that deployments commonly tag profiles with to identify the build
+const REVISION_LABELS = ['commit', 'version'];
+
+/**
+ * Tie the loaded session to the git revision it was profiled at, so hints follow
+ * their code to where it is in the working copy
+ */
+export function registerSetRevisionCommand(profileStore: ProfileStore): vscode.Disposable {
+    return vscode.commands.registerCommand('pyroscope.setRevision', async () => {
+        const logger = getLogger();
+
+        const info = profileStore.getProfileInfo();
+        if (!info) {
+            vscode.window.showInformationMessage(
+                'No profile loaded. Load a profile file or fetch a profile first.'
+            );
+            return;
+        }
+
+        const candidates = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Window,
+                title: 'Pyroscope: reading revision labels',
+            },
+            () => findLabeledRevisions(profileStore)
+        );
+        const items: (vscode.QuickPickItem & { revision?: string; action?: 'enter' | 'clear' })[] =
+            candidates.map(({ label, value }) => ({
+                label: value,
+                description: `${label} label`,
+                revision: value,
+            }));
+        items.push({ label: '$(edit) Enter revision...', action: 'enter' });
+        if (info.revision) {
+            items.push({
+                label: '$(clear-all) Clear revision',
+                description: `currently ${shortRevision(info.revision)}`,
+                action: 'clear',
+            });
+        }
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select the git revision the profiled build was made from',
+        });
+        if (!selected) {
+            return;
+        }
+
+        if (selected.action === 'clear') {
+            profileStore.setRevision(undefined);
+            logger.info('Revision cleared');
+            return;
+        }
+
+        let revision = selected.revision;
+        if (selected.action === 'enter') {
+            revision = (
+                await vscode.window.showInputBox({
+                    prompt: 'Commit, tag or branch the profiled build was made from',
+                    placeHolder: 'e.g. v1.4.2 or 3f2c9e1',
+                    value: info.revision,
+                })
+            )?.trim();
+        }
+        if (!revision) {
+            return;
+        }
+
+        // Version labels often leave out the "v" of the release tag
+        const tagged = /^\d/.test(revision) ? `v${revision}` : null;
+        const commit =
+            (await resolveInWorkspace(revision)) || (tagged && (await resolveInWorkspace(tagged)));
+        if (!commit) {
+            vscode.window.showErrorMessage(
+                `Revision "${revision}" not found in the workspace repository. Fetch it (e.g. git fetch --tags) and try again.`
+            );
+            return;
+        }
+
+        // The commit, not the name: branches move on
+        profileStore.setRevision(commit);
+        logger.info(`Session tied to revision ${revision} (${commit})`);
+        vscode.window.showInformationMessage(
+            `Profile lines are now mapped from ${revision} (${shortRevision(commit)}) to the working copy`
+        );
+    });
+}
+
+/**
+ * Resolve a revision in the repository of the first workspace folder that has it
+ * @returns The commit hash, or null if no folder's repository knows the revision
+ */
+async function resolveInWorkspace(revision: string): Promise<string | null> {
+    const folders = vscode.workspace.workspaceFolders || [];
+    const resolved = await Promise.all(
+        folders.map((folder) => resolveRevision(folder.uri.fsPath, revision))
+    );
+    return resolved.find((commit) => commit !== null) || null;
+}
+
+/**
+ * Collect revision label values from the loaded profiles' sample labels and, for sessions
+ * fetched from a server, from the series matching the session's selector and time range
+ */
+async function findLabeledRevisions(
+    profileStore: ProfileStore
+): Promise<{ label: string; value: string }[]> {
+    const found = new Map<string, string>();
+
+    const profiles = new Set(
+        profileStore.getSessionEntries().map((entry) => entry.sourceProfile || entry.profile)
+    );
+    profiles.forEach((profile) => {
+        if (!profile) {
+            return;
+        }
+        const labels = collectSampleLabels(profile);
+        REVISION_LABELS.forEach((label) =>
+            labels.get(label)?.forEach((_, value) => found.set(value, label))
+        );
+    });
+
+    const query = profileStore.getProfileInfo()?.query;
+    if (query) {
+        const config = vscode.workspace.getConfiguration('pyroscope');
+        const client = new PyroscopeClient(query.serverUrl, config.get<string>('authToken', ''));
+        const selector = buildLabelSelector(query.appName, query.environment, query.labelMatchers);
+        for (const label of REVISION_LABELS) {
+            try {
+                const values = await client.getLabelValues(label, [selector], query);
+                values.forEach((value) => found.set(value, label));
+            } catch (error) {
+                const errMsg = error instanceof Error ? error.message : String(error);
+                getLogger().warn(`Failed to fetch values of ${label}: ${errMsg}`);
+            }
+        }
+    }
+
+    return Array.from(found.entries()).map(([value, label]) => ({ label, value }));
+}
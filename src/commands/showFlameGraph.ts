@@ -0,0 +1,26 @@
+import * as vscode from 'vscode';
+import { ProfileStore } from '../state/profileStore';
+import { FlameGraphPanel } from '../webviews/flameGraphPanel';
+
+export function registerShowFlameGraphCommand(profileStore: ProfileStore): vscode.Disposable {
+    return vscode.commands.registerCommand('pyroscope.showFlameGraph', async () => {
+        const profileNames = profileStore.getLoadedProfileNames();
+        if (profileNames.length === 0) {
+            vscode.window.showInformationMessage('No profile loaded');
+            return;
+        }
+
+        // Ask which profile type to show when the session has more than one
+        let profileName: string | undefined = profileNames[0];
+        if (profileNames.length > 1) {
+            profileName = await vscode.window.showQuickPick(profileNames, {
+                placeHolder: 'Select profile type for the flame graph',
+            });
+            if (!profileName) {
+                return;
+            }
+        }
+
+        FlameGraphPanel.show(profileStore, profileName);
+    });
+}
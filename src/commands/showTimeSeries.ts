@@ -0,0 +1,14 @@
+import * as vscode from 'vscode';
+import { ProfileStore } from '../state/profileStore';
+import { TimeSeriesPanel } from '../webviews/timeSeriesPanel';
+
+export function registerShowTimeSeriesCommand(profileStore: ProfileStore): vscode.Disposable {
+    return vscode.commands.registerCommand('pyroscope.showTimeSeries', () => {
+        if (!profileStore.hasProfile()) {
+            vscode.window.showInformationMessage('No profile loaded');
+            return;
+        }
+
+        TimeSeriesPanel.show(profileStore);
+    });
+}
@@ -0,0 +1,180 @@
+import * as vscode from 'vscode';
+import { ProfileStore, ProfileEntry } from '../state/profileStore';
+import { getSampleTypeIndex } from '../parser/pprofParser';
+import { CallGraph, CallGraphFunction, buildCallGraph, findFunctionAt } from '../parser/callGraph';
+import { PathResolver } from '../utils/pathResolver';
+import { formatPercent, formatValue } from './hintRenderer';
+import { getLogger } from '../utils/logger';
+
+/**
+ * Profile-weighted "Show Call Hierarchy": incoming calls are the sampled callers of a
+ * function with their share of its total, outgoing calls the sampled callees with
+ * their share of its total.
+ *
+ * Uses the first displayed profile type that carries a parsed profile.
+ */
+export class PyroscopeCallHierarchyProvider implements vscode.CallHierarchyProvider {
+    private graphs: WeakMap<ProfileEntry, CallGraph> = new WeakMap();
+    // Items come back for incoming/outgoing calls; names alone are ambiguous across files
+    private itemKeys: WeakMap<vscode.CallHierarchyItem, string> = new WeakMap();
+    private pathResolver: PathResolver;
+
+    constructor(private profileStore: ProfileStore) {
+        this.pathResolver = new PathResolver(getLogger());
+    }
+
+    /**
+     * Check whether the loaded session has an entry whose metrics come from its own samples.
+     * Span sessions keep no samples of the spans and server diffs none of either side.
+     */
+    public static hasSampledEntries(profileStore: ProfileStore): boolean {
+        return profileStore
+            .getLoadedProfileNames()
+            .some((name) => PyroscopeCallHierarchyProvider.isSampled(profileStore, name));
+    }
+
+    private static isSampled(profileStore: ProfileStore, name: string): boolean {
+        const entry = profileStore.getProfileEntry(name);
+        return (
+            !!entry?.profile && !entry.isDiff && !profileStore.getProfileInfo()?.query?.spanSelector
+        );
+    }
+
+    prepareCallHierarchy(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.CallHierarchyItem | null {
+        const source = this.getGraph();
+        if (!source) {
+            return null;
+        }
+
+        // The profile has the lines of the profiled revision
+        const filePath = document.uri.fsPath;
+        const func = findFunctionAt(
+            source.graph,
+            filePath,
+            this.profileStore.getProfiledLine(filePath, position.line + 1),
+            (filename) => this.pathResolver.resolveFilePath(filename)
+        );
+        if (!func) {
+            return null;
+        }
+
+        const item = this.createItem(func, source.entry.unit);
+        item.detail = `${formatPercent(this.percentOf(func.total, source.graph.total))} total, ${formatPercent(this.percentOf(func.self, source.graph.total))} self`;
+        return item;
+    }
+
+    provideCallHierarchyIncomingCalls(
+        item: vscode.CallHierarchyItem
+    ): vscode.CallHierarchyIncomingCall[] {
+        const source = this.getGraph();
+        const key = this.itemKeys.get(item);
+        const func = key ? source?.graph.functions.get(key) : undefined;
+        if (!source || !func) {
+            return [];
+        }
+
+        return this.sortEdges(func.callers).flatMap(([callerKey, edge]) => {
+            const caller = source.graph.functions.get(callerKey);
+            if (!caller) {
+                return [];
+            }
+            const callerItem = this.createItem(caller, source.entry.unit);
+            callerItem.detail = `${formatPercent(this.percentOf(edge.value, func.total))} of calls · ${formatValue(edge.value, source.entry.unit)}`;
+            return [new vscode.CallHierarchyIncomingCall(callerItem, this.toRanges(edge.lines))];
+        });
+    }
+
+    provideCallHierarchyOutgoingCalls(
+        item: vscode.CallHierarchyItem
+    ): vscode.CallHierarchyOutgoingCall[] {
+        const source = this.getGraph();
+        const key = this.itemKeys.get(item);
+        const func = key ? source?.graph.functions.get(key) : undefined;
+        if (!source || !func) {
+            return [];
+        }
+
+        return this.sortEdges(func.callees).flatMap(([calleeKey, edge]) => {
+            const callee = source.graph.functions.get(calleeKey);
+            if (!callee) {
+                return [];
+            }
+            const calleeItem = this.createItem(callee, source.entry.unit);
+            calleeItem.detail = `${formatPercent(this.percentOf(edge.value, func.total))} of ${func.name} · ${formatValue(edge.value, source.entry.unit)}`;
+            return [new vscode.CallHierarchyOutgoingCall(calleeItem, this.toRanges(edge.lines))];
+        });
+    }
+
+    /**
+     * Get the call graph of the first displayed profile type with a parsed profile,
+     * building it on first use
+     */
+    private getGraph(): { entry: ProfileEntry; graph: CallGraph } | null {
+        const config = vscode.workspace.getConfiguration('pyroscope');
+        const displayProfiles = config.get<string[]>('displayProfiles', []);
+        const names =
+            displayProfiles.length > 0
+                ? displayProfiles
+                : this.profileStore.getLoadedProfileNames();
+
+        for (const name of names) {
+            const entry = this.profileStore.getProfileEntry(name);
+            if (
+                !entry?.profile ||
+                !PyroscopeCallHierarchyProvider.isSampled(this.profileStore, name)
+            ) {
+                continue;
+            }
+
+            let graph = this.graphs.get(entry);
+            if (!graph) {
+                let valueIndex = getSampleTypeIndex(entry.profile, entry.sampleType);
+                if (valueIndex === -1) {
+                    // pprof convention: the last sample type is the default
+                    valueIndex = entry.profile.sampleTypes.length - 1;
+                }
+                graph = buildCallGraph(entry.profile, valueIndex);
+                this.graphs.set(entry, graph);
+            }
+            return { entry, graph };
+        }
+
+        return null;
+    }
+
+    private createItem(func: CallGraphFunction, unit: string): vscode.CallHierarchyItem {
+        // Functions outside the workspace (runtime, dependencies) keep their profile path
+        const resolved = func.filename ? this.pathResolver.resolveFilePath(func.filename) : null;
+        const uri = vscode.Uri.file(resolved || func.filename || func.name);
+        const line = Math.max(0, func.startLine - 1);
+        const range = new vscode.Range(line, 0, line, 0);
+
+        const item = new vscode.CallHierarchyItem(
+            vscode.SymbolKind.Function,
+            func.name,
+            formatValue(func.total, unit),
+            uri,
+            range,
+            range
+        );
+        this.itemKeys.set(item, func.key);
+        return item;
+    }
+
+    private sortEdges<T extends { value: number }>(edges: Map<string, T>): [string, T][] {
+        return Array.from(edges.entries()).sort((a, b) => b[1].value - a[1].value);
+    }
+
+    private toRanges(lines: Set<number>): vscode.Range[] {
+        return Array.from(lines)
+            .sort((a, b) => a - b)
+            .map((line) => new vscode.Range(line - 1, 0, line - 1, 0));
+    }
+
+    private percentOf(value: number, total: number): number {
+        return total > 0 ? (value / total) * 100 : 0;
+    }
+}
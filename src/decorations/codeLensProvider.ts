@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+import { ProfileStore } from '../state/profileStore';
+import { renderFunctionHint } from './hintRenderer';
+import {
+    aggregateFunctionMetrics,
+    getFunctionAggregatorConfig,
+    getFunctionDisplayConfig,
+} from './functionMetricsAggregator';
+
+/**
+ * Shows aggregated function metrics as informational CodeLens above function declarations
+ */
+export class PyroscopeCodeLensProvider implements vscode.CodeLensProvider {
+    public readonly onDidChangeCodeLenses: vscode.Event<void>;
+
+    constructor(
+        private profileStore: ProfileStore,
+        onDidChangeEmitter: vscode.EventEmitter<void>
+    ) {
+        this.onDidChangeCodeLenses = onDidChangeEmitter.event;
+    }
+
+    async provideCodeLenses(
+        document: vscode.TextDocument,
+        token: vscode.CancellationToken
+    ): Promise<vscode.CodeLens[]> {
+        if (!this.profileStore.hasProfile()) {
+            return [];
+        }
+
+        const functions = await aggregateFunctionMetrics(
+            document,
+            this.profileStore,
+            getFunctionAggregatorConfig(this.profileStore)
+        );
+        if (token.isCancellationRequested) {
+            return [];
+        }
+
+        const displayConfig = getFunctionDisplayConfig();
+        const lenses: vscode.CodeLens[] = [];
+
+        functions.forEach((metrics) => {
+            const hint = renderFunctionHint(metrics, displayConfig);
+            if (!hint) {
+                return;
+            }
+
+            const line = metrics.range.start.line;
+            // Informational only: an empty command makes the lens non-clickable
+            lenses.push(
+                new vscode.CodeLens(new vscode.Range(line, 0, line, 0), {
+                    title: `🔥 ${hint.text}`,
+                    command: '',
+                })
+            );
+        });
+
+        return lenses;
+    }
+}
@@ -1,18 +1,41 @@
 import * as vscode from 'vscode';
 import { ProfileStore } from '../state/profileStore';
-import { renderHint, HintConfig } from './hintRenderer';
+import { getSampleValue } from '../parser/sourceMapper';
+import { renderHint, HintConfig, ProfileLineMetrics, formatPercent } from './hintRenderer';
 import { PyroscopeHoverProvider } from './hoverProvider';
+import { PyroscopeCodeLensProvider } from './codeLensProvider';
+import { PyroscopeCallHierarchyProvider } from './callHierarchyProvider';
+import { FunctionDecorationProvider } from './functionDecorationProvider';
+import { HeatDecorationProvider } from './heatDecorationProvider';
 import { getLogger, shouldLogDebug } from '../utils/logger';
+import { shortRevision } from '../utils/git';
+
+const SUPPORTED_LANGUAGES = ['go', 'python', 'javascript', 'typescript'];
 
 export class DecorationManager {
     private decorationTypes: Map<string, vscode.TextEditorDecorationType> = new Map();
+    private removedLineDecorationType: vscode.TextEditorDecorationType;
     private enabled: boolean = true;
     private hoverProvider: vscode.Disposable | null = null;
+    private codeLensProvider: vscode.Disposable | null = null;
+    private callHierarchyProvider: vscode.Disposable | null = null;
+    private functionDecorationProvider: FunctionDecorationProvider | null = null;
+    private heatDecorationProvider: HeatDecorationProvider;
+    private codeLensChangeEmitter = new vscode.EventEmitter<void>();
     private logger: ReturnType<typeof getLogger>;
 
     constructor(private profileStore: ProfileStore) {
         this.logger = getLogger();
+        this.heatDecorationProvider = new HeatDecorationProvider(profileStore);
+        this.removedLineDecorationType = vscode.window.createTextEditorDecorationType({
+            after: {
+                color: new vscode.ThemeColor('editorWarning.foreground'),
+                fontStyle: 'italic',
+            },
+        });
         this.registerHoverProvider();
+        this.registerCodeLensProvider();
+        this.registerFunctionDecorations();
     }
 
     /**
@@ -20,14 +43,88 @@ export class DecorationManager {
      */
     private registerHoverProvider(): void {
         const provider = new PyroscopeHoverProvider(this.profileStore);
-        const languages = ['go', 'python', 'javascript', 'typescript'];
 
         this.hoverProvider = vscode.languages.registerHoverProvider(
-            languages.map((lang) => ({ language: lang })),
+            SUPPORTED_LANGUAGES.map((lang) => ({ language: lang })),
             provider
         );
     }
 
+    /**
+     * Register the profile-weighted call hierarchy provider while a session with parsed
+     * samples is loaded. VS Code only asks one provider, so a registration without data
+     * would hide the language server's call hierarchy.
+     */
+    private updateCallHierarchyProvider(): void {
+        const hasSamples = PyroscopeCallHierarchyProvider.hasSampledEntries(this.profileStore);
+        if (hasSamples && !this.callHierarchyProvider) {
+            this.callHierarchyProvider = vscode.languages.registerCallHierarchyProvider(
+                SUPPORTED_LANGUAGES.map((lang) => ({ language: lang })),
+                new PyroscopeCallHierarchyProvider(this.profileStore)
+            );
+        } else if (!hasSamples && this.callHierarchyProvider) {
+            this.callHierarchyProvider.dispose();
+            this.callHierarchyProvider = null;
+        }
+    }
+
+    /**
+     * Register the function-level CodeLens provider if enabled
+     */
+    private registerCodeLensProvider(): void {
+        const config = vscode.workspace.getConfiguration('pyroscope');
+        if (!config.get<boolean>('enableCodeLens', true)) {
+            return;
+        }
+
+        const provider = new PyroscopeCodeLensProvider(
+            this.profileStore,
+            this.codeLensChangeEmitter
+        );
+
+        this.codeLensProvider = vscode.languages.registerCodeLensProvider(
+            SUPPORTED_LANGUAGES.map((lang) => ({ language: lang })),
+            provider
+        );
+    }
+
+    /**
+     * Create the function-level above-line decoration provider if enabled
+     */
+    private registerFunctionDecorations(): void {
+        const config = vscode.workspace.getConfiguration('pyroscope');
+        if (!config.get<boolean>('enableFunctionDecorations', false)) {
+            return;
+        }
+
+        this.functionDecorationProvider = new FunctionDecorationProvider(this.profileStore);
+    }
+
+    /**
+     * React to pyroscope.* configuration changes
+     */
+    public onConfigurationChanged(e: vscode.ConfigurationChangeEvent): void {
+        if (e.affectsConfiguration('pyroscope.enableCodeLens')) {
+            this.codeLensProvider?.dispose();
+            this.codeLensProvider = null;
+            this.registerCodeLensProvider();
+        }
+
+        if (e.affectsConfiguration('pyroscope.enableFunctionDecorations')) {
+            if (this.functionDecorationProvider) {
+                const provider = this.functionDecorationProvider;
+                vscode.window.visibleTextEditors.forEach((editor) =>
+                    provider.clearDecorations(editor)
+                );
+                provider.dispose();
+                this.functionDecorationProvider = null;
+            }
+            this.registerFunctionDecorations();
+        }
+
+        this.updateDecorations();
+    }
+
     /**
      * Update decorations for all visible editors
      */
@@ -36,6 +133,21 @@ export class DecorationManager {
             this.logger.debug('Updating decorations for visible editors');
         }
 
+        this.updateCallHierarchyProvider();
+
+        // Function-level metrics, gutter and overview ruler are independent of the inline hints toggle
+        this.updateFunctionDecorations();
+        this.codeLensChangeEmitter.fire();
+
+        // Editors whose lines are still being remapped to the session's git revision are
+        // drawn once the diff is in, rather than at the wrong lines first
+        const editors = vscode.window.visibleTextEditors.filter(
+            (editor) => !this.profileStore.isLineMappingPending(editor.document.uri.fsPath)
+        );
+        editors.forEach((editor) => {
+            this.heatDecorationProvider.updateDecorations(editor);
+        });
+
         if (!this.enabled || !this.profileStore.hasProfile()) {
             this.clearAllDecorations();
             return;
@@ -43,8 +155,23 @@ export class DecorationManager {
 
         const config = this.getConfig();
 
-        vscode.window.visibleTextEditors.forEach((editor) => {
+        editors.forEach((editor) => {
             this.updateEditorDecorations(editor, config);
+            this.updateRemovedLineDecorations(editor, config);
+        });
+    }
+
+    /**
+     * Update function-level above-line decorations for all visible editors
+     */
+    private updateFunctionDecorations(): void {
+        const provider = this.functionDecorationProvider;
+        if (!provider) {
+            return;
+        }
+
+        vscode.window.visibleTextEditors.forEach((editor) => {
+            provider.updateDecorations(editor);
         });
     }
 
@@ -65,10 +192,7 @@ export class DecorationManager {
         }
 
         // Group metrics by line number, collecting from all profiles
-        const lineMetricsMap = new Map<
-            number,
-            Map<string, { metrics: import('../parser/sourceMapper').LineMetrics; unit: string }>
-        >();
+        const lineMetricsMap = new Map<number, Map<string, ProfileLineMetrics>>();
 
         displayProfiles.forEach((profileName) => {
             if (!loadedProfiles.includes(profileName)) {
@@ -91,6 +215,7 @@ export class DecorationManager {
                 }
                 lineMetricsMap.get(lineNumber)!.set(profileName, {
                     metrics,
+                    sampleType: entry.sampleType,
                     unit: entry.unit,
                 });
             });
@@ -100,10 +225,6 @@ export class DecorationManager {
             this.logger.debug(`  ${filePath}: ${lineMetricsMap.size} lines with metrics`);
         }
 
-        if (lineMetricsMap.size === 0) {
-            return;
-        }
-
         // Group decorations by color
         const decorationsByColor = new Map<string, vscode.DecorationOptions[]>();
 
@@ -134,13 +255,70 @@ export class DecorationManager {
             decorationsByColor.get(hint.color)!.push(decoration);
         });
 
-        // Apply decorations
-        decorationsByColor.forEach((decorations, color) => {
-            const decorationType = this.getOrCreateDecorationType(color);
-            editor.setDecorations(decorationType, decorations);
+        // Apply decorations, clearing colors no line has anymore so that hints of a previous
+        // render (e.g. before a live refresh) do not linger
+        decorationsByColor.forEach((_, color) => this.getOrCreateDecorationType(color));
+        this.decorationTypes.forEach((decorationType, color) => {
+            editor.setDecorations(decorationType, decorationsByColor.get(color) || []);
         });
     }
 
+    /**
+     * Mark where profiled lines above the threshold were removed since the session's git
+     * revision, so their cost does not silently disappear
+     */
+    private updateRemovedLineDecorations(editor: vscode.TextEditor, config: HintConfig): void {
+        const filePath = editor.document.uri.fsPath;
+        const revision = this.profileStore.getProfileInfo()?.revision;
+        if (!revision) {
+            editor.setDecorations(this.removedLineDecorationType, []);
+            return;
+        }
+        const loadedProfiles = this.profileStore.getLoadedProfileNames();
+
+        // Original lines and the hottest of them, by the line now in their place
+        const removedByLine = new Map<number, { lines: Set<number>; percent: number }>();
+        (config.displayProfiles || loadedProfiles).forEach((profileName) => {
+            const entry = this.profileStore.getProfileEntry(profileName);
+            if (!entry) {
+                return;
+            }
+
+            this.profileStore.getRemovedLines(profileName, filePath).forEach((metrics) => {
+                const { percent, selfPercent } = getSampleValue(metrics, entry.sampleType);
+                const hottest = Math.max(percent, selfPercent);
+                if (hottest < config.threshold) {
+                    return;
+                }
+
+                const removed = removedByLine.get(metrics.line) || {
+                    lines: new Set<number>(),
+                    percent: 0,
+                };
+                removed.lines.add(metrics.originalLine ?? metrics.line);
+                removed.percent = Math.max(removed.percent, hottest);
+                removedByLine.set(metrics.line, removed);
+            });
+        });
+
+        const decorations: vscode.DecorationOptions[] = [];
+        removedByLine.forEach(({ lines, percent }, lineNumber) => {
+            const line = Math.max(0, lineNumber - 1);
+            const count = lines.size === 1 ? 'line' : `${lines.size} lines`;
+            decorations.push({
+                range: new vscode.Range(line, 1024, line, 1024),
+                renderOptions: {
+                    after: {
+                        contentText: ` ⌫ profiled ${count} removed since ${shortRevision(revision)} (${formatPercent(percent)})`,
+                        margin: '0 0 0 1em',
+                    },
+                },
+                hoverMessage: `Lines ${Array.from(lines).join(', ')} of ${revision} no longer exist in the working copy`,
+            });
+        });
+        editor.setDecorations(this.removedLineDecorationType, decorations);
+    }
+
     /**
      * Get or create a decoration type for a specific color
      */
@@ -161,11 +339,13 @@ export class DecorationManager {
      * Clear all decorations from all editors
      */
     private clearAllDecorations(): void {
-        this.decorationTypes.forEach((decorationType) => {
-            vscode.window.visibleTextEditors.forEach((editor) => {
-                editor.setDecorations(decorationType, []);
-            });
-        });
+        [...this.decorationTypes.values(), this.removedLineDecorationType].forEach(
+            (decorationType) => {
+                vscode.window.visibleTextEditors.forEach((editor) => {
+                    editor.setDecorations(decorationType, []);
+                });
+            }
+        );
     }
 
     /**
@@ -198,6 +378,7 @@ export class DecorationManager {
             colorScheme: config.get<'heatmap' | 'threshold' | 'minimal'>('colorScheme', 'heatmap'),
             threshold: config.get<number>('threshold', 1.0),
             displayProfiles,
+            comparisonLabel: this.profileStore.getComparisonLabel(),
         };
     }
 
@@ -208,9 +389,21 @@ export class DecorationManager {
         this.clearAllDecorations();
         this.decorationTypes.forEach((decorationType) => decorationType.dispose());
         this.decorationTypes.clear();
+        this.removedLineDecorationType.dispose();
 
         if (this.hoverProvider) {
             this.hoverProvider.dispose();
         }
+        if (this.callHierarchyProvider) {
+            this.callHierarchyProvider.dispose();
+        }
+        if (this.codeLensProvider) {
+            this.codeLensProvider.dispose();
+        }
+        if (this.functionDecorationProvider) {
+            this.functionDecorationProvider.dispose();
+        }
+        this.heatDecorationProvider.dispose();
+        this.codeLensChangeEmitter.dispose();
     }
 }
@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import { ProfileStore } from '../state/profileStore';
+import { renderFunctionHint } from './hintRenderer';
+import {
+    aggregateFunctionMetrics,
+    getFunctionAggregatorConfig,
+    getFunctionDisplayConfig,
+} from './functionMetricsAggregator';
+import { getLogger } from '../utils/logger';
+
+/**
+ * Shows aggregated function metrics as prominent text decorations above function declarations
+ */
+export class FunctionDecorationProvider {
+    private decorationType: vscode.TextEditorDecorationType;
+
+    constructor(private profileStore: ProfileStore) {
+        this.decorationType = vscode.window.createTextEditorDecorationType({
+            before: {
+                color: new vscode.ThemeColor('editorCodeLens.foreground'),
+                fontStyle: 'italic',
+                // Render as a block so the text sits on its own line above the declaration
+                textDecoration: 'none; display: block; margin-bottom: 0.5em;',
+            },
+            isWholeLine: true,
+        });
+    }
+
+    /**
+     * Update function decorations for an editor
+     */
+    public async updateDecorations(editor: vscode.TextEditor): Promise<void> {
+        if (!this.profileStore.hasProfile()) {
+            this.clearDecorations(editor);
+            return;
+        }
+
+        try {
+            const functions = await aggregateFunctionMetrics(
+                editor.document,
+                this.profileStore,
+                getFunctionAggregatorConfig(this.profileStore)
+            );
+
+            const displayConfig = getFunctionDisplayConfig();
+            const decorations: vscode.DecorationOptions[] = [];
+
+            functions.forEach((metrics) => {
+                const hint = renderFunctionHint(metrics, displayConfig);
+                if (!hint) {
+                    return;
+                }
+
+                const line = metrics.range.start.line;
+                decorations.push({
+                    range: new vscode.Range(line, 0, line, 0),
+                    renderOptions: {
+                        before: {
+                            contentText: `🔥 ${hint.text}`,
+                            color: displayConfig.colorScheme === 'minimal' ? undefined : hint.color,
+                        },
+                    },
+                });
+            });
+
+            editor.setDecorations(this.decorationType, decorations);
+        } catch (error: any) {
+            getLogger().error(`Failed to update function decorations: ${error.message}`);
+        }
+    }
+
+    public clearDecorations(editor: vscode.TextEditor): void {
+        editor.setDecorations(this.decorationType, []);
+    }
+
+    public dispose(): void {
+        this.decorationType.dispose();
+    }
+}
@@ -0,0 +1,237 @@
+import * as vscode from 'vscode';
+import { ProfileStore, ProfileEntry } from '../state/profileStore';
+import { FileMetrics, SampleValue, getSampleValue } from '../parser/sourceMapper';
+import { FunctionDisplayConfig } from './hintRenderer';
+import { getLogger } from '../utils/logger';
+
+/**
+ * Self (function's own code) and cumulative (including nested calls) value of one profile type
+ */
+export interface FunctionValue extends SampleValue {
+    profileName: string;
+}
+
+export interface FunctionMetrics {
+    name: string;
+    range: vscode.Range;
+    values: FunctionValue[]; // One per displayed profile type with samples in the function
+}
+
+export interface FunctionAggregatorConfig {
+    threshold: number;
+    includeAnonymous: boolean;
+    displayProfiles?: string[];
+}
+
+const FUNCTION_SYMBOL_KINDS = [
+    vscode.SymbolKind.Function,
+    vscode.SymbolKind.Method,
+    vscode.SymbolKind.Constructor,
+];
+
+interface FunctionSymbol {
+    name: string;
+    range: vscode.Range;
+    children: FunctionSymbol[];
+}
+
+/**
+ * Read function-level display settings (pyroscope.functionDisplay.* plus shared display settings)
+ */
+export function getFunctionDisplayConfig(): FunctionDisplayConfig {
+    const config = vscode.workspace.getConfiguration('pyroscope');
+    return {
+        displayMode: config.get<'cpu' | 'memory' | 'both'>('displayMode', 'both'),
+        colorScheme: config.get<'heatmap' | 'threshold' | 'minimal'>('colorScheme', 'heatmap'),
+        showName: config.get<boolean>('functionDisplay.showName', true),
+        showSelfMetrics: config.get<boolean>('functionDisplay.showSelfMetrics', true),
+        showCumulativeMetrics: config.get<boolean>('functionDisplay.showCumulativeMetrics', true),
+        showCounts: config.get<boolean>('functionDisplay.showCounts', false),
+        format: config.get<'full' | 'compact'>('functionDisplay.format', 'full'),
+    };
+}
+
+/**
+ * Read aggregation settings shared with inline hints
+ */
+export function getFunctionAggregatorConfig(profileStore: ProfileStore): FunctionAggregatorConfig {
+    const config = vscode.workspace.getConfiguration('pyroscope');
+    const displayProfiles = config.get<string[]>('displayProfiles', []);
+    return {
+        threshold: config.get<number>('threshold', 1.0),
+        includeAnonymous: true,
+        displayProfiles:
+            displayProfiles.length > 0 ? displayProfiles : profileStore.getLoadedProfileNames(),
+    };
+}
+
+/**
+ * Aggregate line metrics across the function symbols of a document
+ * @returns One entry per function above the threshold, nested functions included
+ */
+export async function aggregateFunctionMetrics(
+    document: vscode.TextDocument,
+    profileStore: ProfileStore,
+    config: FunctionAggregatorConfig
+): Promise<FunctionMetrics[]> {
+    if (!profileStore.hasProfile()) {
+        return [];
+    }
+
+    const sources = getSourceMetrics(document.uri.fsPath, profileStore, config.displayProfiles);
+    if (sources.length === 0) {
+        return [];
+    }
+
+    let symbols: FunctionSymbol[];
+    try {
+        symbols = await getFunctionSymbols(document);
+    } catch (error: any) {
+        getLogger().warn(`Document symbols unavailable for ${document.uri.fsPath}: ${error}`);
+        return [];
+    }
+
+    const results: FunctionMetrics[] = [];
+
+    const visit = (symbol: FunctionSymbol): void => {
+        symbol.children.forEach(visit);
+
+        if (!config.includeAnonymous && isAnonymous(symbol.name)) {
+            return;
+        }
+
+        const metrics = aggregateRange(symbol, sources);
+        if (!metrics) {
+            return;
+        }
+
+        const maxPercent = Math.max(
+            ...metrics.values.map((value) => Math.max(value.selfPercent, value.percent))
+        );
+        if (maxPercent >= config.threshold) {
+            results.push(metrics);
+        }
+    };
+    symbols.forEach(visit);
+
+    return results.sort((a, b) => a.range.start.line - b.range.start.line);
+}
+
+/**
+ * Metrics of a file for one displayed profile type
+ */
+interface SourceMetrics {
+    entry: ProfileEntry;
+    fileMetrics: FileMetrics;
+}
+
+/**
+ * Collect the file's metrics from each displayed profile type that has samples in it
+ */
+function getSourceMetrics(
+    filePath: string,
+    profileStore: ProfileStore,
+    displayProfiles?: string[]
+): SourceMetrics[] {
+    const names = displayProfiles || profileStore.getLoadedProfileNames();
+    const sources: SourceMetrics[] = [];
+    names.forEach((name) => {
+        const entry = profileStore.getProfileEntry(name);
+        const fileMetrics = entry ? profileStore.getMetricsForProfile(name, filePath) : null;
+        if (entry && fileMetrics) {
+            sources.push({ entry, fileMetrics });
+        }
+    });
+    return sources;
+}
+
+/**
+ * Sum line metrics within a function's range, leaving out nested functions
+ * (they get their own entry, and their call site line already carries their cumulative cost)
+ * @returns null if no line in the range has metrics
+ */
+function aggregateRange(symbol: FunctionSymbol, sources: SourceMetrics[]): FunctionMetrics | null {
+    const isNested = (line: number) =>
+        symbol.children.some(
+            (child) => line >= child.range.start.line && line <= child.range.end.line
+        );
+
+    const values: FunctionValue[] = [];
+    sources.forEach(({ entry, fileMetrics }) => {
+        const value: FunctionValue = {
+            profileName: entry.name,
+            unit: entry.unit,
+            self: 0,
+            total: 0,
+            selfPercent: 0,
+            percent: 0,
+        };
+        let found = false;
+
+        // LineMetrics are 1-indexed, symbol ranges 0-indexed
+        for (let line = symbol.range.start.line; line <= symbol.range.end.line; line++) {
+            const metrics = isNested(line) ? undefined : fileMetrics.get(line + 1);
+            if (!metrics) {
+                continue;
+            }
+
+            found = true;
+            const lineValue = getSampleValue(metrics, entry.sampleType);
+            value.unit = lineValue.unit || value.unit;
+            value.self += lineValue.self;
+            value.total += lineValue.total;
+            value.selfPercent += lineValue.selfPercent;
+            value.percent += lineValue.percent;
+        }
+
+        if (found) {
+            values.push(value);
+        }
+    });
+
+    if (values.length === 0) {
+        return null;
+    }
+
+    return { name: symbol.name || '(anonymous)', range: symbol.range, values };
+}
+
+/**
+ * Get function-like symbols of a document as a tree
+ */
+async function getFunctionSymbols(document: vscode.TextDocument): Promise<FunctionSymbol[]> {
+    const symbols = await vscode.commands.executeCommand<
+        (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined
+    >('vscode.executeDocumentSymbolProvider', document.uri);
+
+    if (!symbols || symbols.length === 0) {
+        return [];
+    }
+
+    // Some providers return flat SymbolInformation instead of DocumentSymbol trees
+    if (!('children' in symbols[0])) {
+        return (symbols as vscode.SymbolInformation[])
+            .filter((s) => FUNCTION_SYMBOL_KINDS.includes(s.kind))
+            .map((s) => ({ name: s.name, range: s.location.range, children: [] }));
+    }
+
+    const collect = (docSymbols: vscode.DocumentSymbol[]): FunctionSymbol[] => {
+        const result: FunctionSymbol[] = [];
+        docSymbols.forEach((s) => {
+            const children = collect(s.children);
+            if (FUNCTION_SYMBOL_KINDS.includes(s.kind)) {
+                result.push({ name: s.name, range: s.range, children });
+            } else {
+                // Functions inside classes, modules, etc.
+                result.push(...children);
+            }
+        });
+        return result;
+    };
+
+    return collect(symbols as vscode.DocumentSymbol[]);
+}
+
+function isAnonymous(name: string): boolean {
+    return name === '' || name.includes('<anonymous>') || name.includes('<function>');
+}
@@ -0,0 +1,146 @@
+import * as vscode from 'vscode';
+import { ProfileStore } from '../state/profileStore';
+import { getSampleValue } from '../parser/sourceMapper';
+import { getColor } from './hintRenderer';
+
+// Percentage at which a gutter bar reaches full intensity
+const FULL_INTENSITY_PERCENT = 20;
+const INTENSITY_LEVELS = 5;
+
+function addDecoration(
+    decorations: Map<string, vscode.DecorationOptions[]>,
+    key: string,
+    decoration: vscode.DecorationOptions
+): void {
+    if (!decorations.has(key)) {
+        decorations.set(key, []);
+    }
+    decorations.get(key)!.push(decoration);
+}
+
+/**
+ * Shows where the heat is in a file at a glance: a gutter bar per hot line with its
+ * intensity scaled by percent, and markers in the overview ruler (scrollbar).
+ * Both are configured separately from the inline text hints.
+ */
+export class HeatDecorationProvider {
+    private gutterTypes: Map<string, vscode.TextEditorDecorationType> = new Map();
+    private rulerTypes: Map<string, vscode.TextEditorDecorationType> = new Map();
+
+    constructor(private profileStore: ProfileStore) {}
+
+    /**
+     * Update gutter and overview ruler decorations for an editor
+     */
+    public updateDecorations(editor: vscode.TextEditor): void {
+        const config = vscode.workspace.getConfiguration('pyroscope');
+        const showGutter = config.get<boolean>('gutterHeatmap', false);
+        const showRuler = config.get<boolean>('overviewRulerMarkers', true);
+        const colorScheme = config.get<string>('colorScheme', 'heatmap');
+
+        const gutterDecorations = new Map<string, vscode.DecorationOptions[]>();
+        const rulerDecorations = new Map<string, vscode.DecorationOptions[]>();
+
+        if (showGutter || showRuler) {
+            this.getLinePercents(editor.document.uri.fsPath).forEach((percent, lineNumber) => {
+                const line = lineNumber - 1; // VS Code lines are 0-indexed
+                const decoration = { range: new vscode.Range(line, 0, line, 0) };
+                const color = getColor(percent, colorScheme);
+
+                if (showGutter) {
+                    const level = Math.min(
+                        INTENSITY_LEVELS,
+                        Math.ceil((percent / FULL_INTENSITY_PERCENT) * INTENSITY_LEVELS)
+                    );
+                    const key = `${color}|${level}`;
+                    this.getGutterType(key, color, level);
+                    addDecoration(gutterDecorations, key, decoration);
+                }
+
+                if (showRuler) {
+                    this.getRulerType(color);
+                    addDecoration(rulerDecorations, color, decoration);
+                }
+            });
+        }
+
+        // Set every known type so lines that cooled down or disappeared lose their old marker
+        this.gutterTypes.forEach((type, key) =>
+            editor.setDecorations(type, gutterDecorations.get(key) || [])
+        );
+        this.rulerTypes.forEach((type, color) =>
+            editor.setDecorations(type, rulerDecorations.get(color) || [])
+        );
+    }
+
+    public dispose(): void {
+        this.gutterTypes.forEach((type) => type.dispose());
+        this.rulerTypes.forEach((type) => type.dispose());
+        this.gutterTypes.clear();
+        this.rulerTypes.clear();
+    }
+
+    /**
+     * Highest percentage per line across the displayed profile types, above the threshold
+     */
+    private getLinePercents(filePath: string): Map<number, number> {
+        const config = vscode.workspace.getConfiguration('pyroscope');
+        const threshold = config.get<number>('threshold', 1.0);
+        const displayProfiles = config.get<string[]>('displayProfiles', []);
+        const names =
+            displayProfiles.length > 0
+                ? displayProfiles
+                : this.profileStore.getLoadedProfileNames();
+
+        const percents = new Map<number, number>();
+        names.forEach((name) => {
+            const entry = this.profileStore.getProfileEntry(name);
+            const fileMetrics = entry
+                ? this.profileStore.getMetricsForProfile(name, filePath)
+                : null;
+            fileMetrics?.forEach((metrics, line) => {
+                const { percent } = getSampleValue(metrics, entry!.sampleType);
+                if (percent >= threshold && percent > (percents.get(line) || 0)) {
+                    percents.set(line, percent);
+                }
+            });
+        });
+        return percents;
+    }
+
+    private getGutterType(
+        key: string,
+        color: string,
+        level: number
+    ): vscode.TextEditorDecorationType {
+        let type = this.gutterTypes.get(key);
+        if (!type) {
+            // A bar along the left edge of the gutter, more opaque the hotter the line
+            const opacity = (level / INTENSITY_LEVELS).toFixed(2);
+            const svg =
+                `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16">` +
+                `<rect x="0" y="0" width="4" height="16" fill="${color}" fill-opacity="${opacity}"/>` +
+                `</svg>`;
+            type = vscode.window.createTextEditorDecorationType({
+                gutterIconPath: vscode.Uri.parse(
+                    `data:image/svg+xml;utf8,${encodeURIComponent(svg)}`
+                ),
+                gutterIconSize: 'contain',
+            });
+            this.gutterTypes.set(key, type);
+        }
+        return type;
+    }
+
+    private getRulerType(color: string): vscode.TextEditorDecorationType {
+        let type = this.rulerTypes.get(color);
+        if (!type) {
+            type = vscode.window.createTextEditorDecorationType({
+                overviewRulerColor: color,
+                overviewRulerLane: vscode.OverviewRulerLane.Right,
+            });
+            this.rulerTypes.set(color, type);
+        }
+        return type;
+    }
+}
@@ -1,10 +1,21 @@
-import { LineMetrics } from '../parser/sourceMapper';
+import { LineMetrics, LineDelta, getSampleValue } from '../parser/sourceMapper';
+import { FunctionMetrics, FunctionValue } from './functionMetricsAggregator';
 
 export interface HintConfig {
     displayMode: 'cpu' | 'memory' | 'both';
     colorScheme: 'heatmap' | 'threshold' | 'minimal';
     threshold: number;
     displayProfiles?: string[];
+    comparisonLabel?: string;
+}
+
+/**
+ * Metrics of a line for one profile type, with the sample type and unit of that profile type
+ */
+export interface ProfileLineMetrics {
+    metrics: LineMetrics;
+    sampleType: string;
+    unit: string;
 }
 
 export interface RenderedHint {
@@ -12,6 +23,16 @@ export interface RenderedHint {
     color: string;
 }
 
+export interface FunctionDisplayConfig {
+    displayMode: 'cpu' | 'memory' | 'both';
+    colorScheme: 'heatmap' | 'threshold' | 'minimal';
+    showName: boolean;
+    showSelfMetrics: boolean;
+    showCumulativeMetrics: boolean;
+    showCounts: boolean;
+    format: 'full' | 'compact';
+}
+
 /**
  * Formats inline hint text for a line with metrics (single profile - legacy)
  */
@@ -20,11 +41,11 @@ export function renderHint(metrics: LineMetrics, config: HintConfig): RenderedHi
  * Formats inline hint text for multiple profile types on a single line
  */
 export function renderHint(
-    profileMetrics: Map<string, { metrics: LineMetrics; unit: string }>,
+    profileMetrics: Map<string, ProfileLineMetrics>,
     config: HintConfig
 ): RenderedHint | null;
 export function renderHint(
-    metricsOrMap: LineMetrics | Map<string, { metrics: LineMetrics; unit: string }>,
+    metricsOrMap: LineMetrics | Map<string, ProfileLineMetrics>,
     config: HintConfig
 ): RenderedHint | null {
     // Handle legacy single-profile case
@@ -37,52 +58,124 @@ export function renderHint(
 }
 
 /**
- * Render hint for single profile (backward compatible)
+ * Render hint for single profile (backward compatible), with every sample type of the line
  */
 function renderSingleProfileHint(metrics: LineMetrics, config: HintConfig): RenderedHint | null {
-    const parts: string[] = [];
+    const values = Object.entries(metrics.values).filter(([, value]) =>
+        isUnitDisplayed(value.unit, config.displayMode)
+    );
 
     // Check threshold using cumulative values
-    const maxPercent = Math.max(metrics.cpuPercent, metrics.memoryPercent);
+    const maxPercent = Math.max(0, ...values.map(([, value]) => value.percent));
     if (maxPercent < config.threshold) {
         return null;
     }
 
-    // Add CPU info
-    if (config.displayMode === 'cpu' || config.displayMode === 'both') {
-        if (metrics.cpuPercent > 0) {
-            // Show cumulative percentage and absolute time if available
-            if (metrics.cpuNanoseconds > 0) {
-                parts.push(
-                    `CPU: ${formatPercent(metrics.cpuPercent)} (${formatNanoseconds(metrics.cpuNanoseconds)})`
-                );
-            } else {
-                parts.push(`CPU: ${formatPercent(metrics.cpuPercent)}`);
+    const parts = values
+        .filter(([, value]) => value.total > 0)
+        .map(
+            ([sampleType, value]) =>
+                `${sampleType}: ${formatSampleValue(value.total, value.percent, value.unit)}`
+        );
+
+    if (parts.length === 0) {
+        return null;
+    }
+
+    const text = parts.join(' | ');
+    const color = getColor(maxPercent, config.colorScheme);
+
+    return { text, color };
+}
+
+/**
+ * Formats function-level metrics for CodeLens and above-line decorations, e.g.
+ * "foo() — Self: cpu 5.2% | alloc_space 1.2% | Cumulative: cpu 12.3% | alloc_space 5.4 MB"
+ */
+export function renderFunctionHint(
+    metrics: FunctionMetrics,
+    config: FunctionDisplayConfig
+): RenderedHint | null {
+    const values = metrics.values.filter((value) =>
+        isUnitDisplayed(value.unit, config.displayMode)
+    );
+    const compact = config.format === 'compact';
+    const sections: string[] = [];
+
+    const formatSection = (cumulative: boolean) => {
+        const percentOf = (value: FunctionValue) =>
+            cumulative ? value.percent : value.selfPercent;
+
+        if (compact) {
+            const percent = Math.max(0, ...values.map(percentOf));
+            return percent > 0 ? [formatPercent(percent)] : [];
+        }
+
+        return values
+            .filter((value) => percentOf(value) > 0)
+            .map((value) =>
+                // Cumulative memory reads better as an amount than as a share
+                cumulative && value.unit === 'bytes' && value.total > 0
+                    ? `${value.profileName} ${formatBytes(value.total)}`
+                    : `${value.profileName} ${formatPercent(percentOf(value))}`
+            );
+    };
+
+    const selfParts = config.showSelfMetrics ? formatSection(false) : [];
+    const cumulativeParts = config.showCumulativeMetrics ? formatSection(true) : [];
+
+    if (!compact && config.showCounts) {
+        const counts = values
+            .filter((value) => value.unit !== 'bytes' && value.total > 0)
+            .map((value) => formatValue(value.total, value.unit));
+        if (counts.length > 0) {
+            const target = cumulativeParts.length > 0 ? cumulativeParts : selfParts;
+            if (target.length > 0) {
+                target[target.length - 1] += ` (${counts.join(', ')})`;
             }
         }
     }
 
-    // Add memory info
-    if (config.displayMode === 'memory' || config.displayMode === 'both') {
-        if (metrics.memoryBytes > 0) {
-            parts.push(`Mem: ${formatBytes(metrics.memoryBytes)}`);
-        }
+    // Only label the sections when both are shown
+    const labelled = selfParts.length > 0 && cumulativeParts.length > 0;
+    if (selfParts.length > 0) {
+        sections.push(`${labelled ? 'Self: ' : ''}${selfParts.join(' | ')}`);
+    }
+    if (cumulativeParts.length > 0) {
+        sections.push(`${labelled ? 'Cumulative: ' : ''}${cumulativeParts.join(' | ')}`);
     }
 
-    if (parts.length === 0) {
+    if (sections.length === 0) {
         return null;
     }
 
-    const text = parts.join(' | ');
-    const color = getColor(maxPercent, config.colorScheme);
+    let text = sections.join(' | ');
+    if (config.showName) {
+        text = `${metrics.name}() — ${text}`;
+    }
 
-    return { text, color };
+    const maxPercent = Math.max(0, ...values.map((value) => value.percent));
+
+    return { text, color: getColor(maxPercent, config.colorScheme) };
+}
+
+/**
+ * Whether a sample unit belongs to the configured display mode: memory is anything
+ * measured in bytes, cpu everything else (time, counts, ...)
+ */
+function isUnitDisplayed(unit: string, displayMode: 'cpu' | 'memory' | 'both'): boolean {
+    if (displayMode === 'cpu') {
+        return unit !== 'bytes';
+    } else if (displayMode === 'memory') {
+        return unit === 'bytes';
+    }
+    return true;
 }
 
 /**
  * Determines the color based on percentage and color scheme
  */
-function getColor(percent: number, scheme: string): string {
+export function getColor(percent: number, scheme: string): string {
     if (scheme === 'minimal') {
         return 'rgba(128, 128, 128, 0.5)';
     }
@@ -114,7 +207,7 @@ function getColor(percent: number, scheme: string): string {
 /**
  * Formats a percentage value
  */
-function formatPercent(value: number): string {
+export function formatPercent(value: number): string {
     if (value >= 10) {
         return `${value.toFixed(1)}%`;
     } else if (value >= 1) {
@@ -128,11 +221,12 @@ function formatPercent(value: number): string {
  * Render hint for multiple profile types
  */
 function renderMultiProfileHint(
-    profileMetrics: Map<string, { metrics: LineMetrics; unit: string }>,
+    profileMetrics: Map<string, ProfileLineMetrics>,
     config: HintConfig
 ): RenderedHint | null {
     const parts: string[] = [];
     let maxPercent = 0;
+    let maxDelta = null as LineDelta | null;
 
     // Get profiles to display (either from config or all profiles)
     const displayProfiles = config.displayProfiles || Array.from(profileMetrics.keys());
@@ -144,46 +238,22 @@ function renderMultiProfileHint(
             return;
         }
 
-        const { metrics, unit } = data;
+        const { metrics, sampleType } = data;
+        const value = getSampleValue(metrics, sampleType);
+        // Lines that only exist in the baseline have no value to take the unit from
+        const unit = value.unit || data.unit;
+        const percent = value.percent;
+        if (isBelowThreshold(percent, metrics.delta, config.threshold)) {
+            return;
+        }
 
-        // Format based on unit type
-        let text: string;
-        let percent: number;
+        let text = `${profileName}: ${formatSampleValue(value.total, percent, unit)}`;
 
-        if (unit === 'nanoseconds') {
-            // CPU profile - show cumulative percentage and absolute time
-            percent = metrics.cpuPercent;
-            if (percent < config.threshold) {
-                return;
-            }
-            // Show both percentage and absolute nanoseconds
-            if (metrics.cpuNanoseconds > 0) {
-                text = `${profileName}: ${formatPercent(percent)} (${formatNanoseconds(metrics.cpuNanoseconds)})`;
-            } else {
-                text = `${profileName}: ${formatPercent(percent)}`;
-            }
-        } else if (unit === 'bytes') {
-            // Memory profile - show formatted bytes and cumulative percentage
-            percent = metrics.memoryPercent;
-            if (percent < config.threshold) {
-                return;
-            }
-            text = `${profileName}: ${formatBytes(metrics.memoryBytes)} (${formatPercent(percent)})`;
-        } else if (unit === 'count') {
-            // Goroutines, blocks, mutex, etc. - use cumulative count
-            percent = metrics.cpuPercent; // Reuse cpuPercent field for generic percentage
-            if (percent < config.threshold) {
-                return;
+        if (metrics.delta) {
+            text += ` ${formatDelta(metrics.delta, unit)} ${config.comparisonLabel || 'vs baseline'}`;
+            if (!maxDelta || Math.abs(metrics.delta.percent) > Math.abs(maxDelta.percent)) {
+                maxDelta = metrics.delta;
             }
-            const count = metrics.cpuSamples; // Reuse cpuSamples for generic count
-            text = `${profileName}: ${count.toLocaleString()}`;
-        } else {
-            // Unknown unit - generic display using cumulative
-            percent = metrics.cpuPercent;
-            if (percent < config.threshold) {
-                return;
-            }
-            text = `${profileName}: ${formatPercent(percent)}`;
         }
 
         parts.push(text);
@@ -194,8 +264,10 @@ function renderMultiProfileHint(
         return null;
     }
 
-    // Calculate color based on max percentage
-    const color = getColor(maxPercent, config.colorScheme);
+    // Color by the largest change when comparing, otherwise by max percentage
+    const color = maxDelta
+        ? getDeltaColor(maxDelta.percent, config.colorScheme)
+        : getColor(maxPercent, config.colorScheme);
 
     return {
         text: parts.join(' | '),
@@ -203,10 +275,101 @@ function renderMultiProfileHint(
     };
 }
 
+/**
+ * A line is hidden when neither its value nor its change against the baseline reaches the threshold
+ */
+function isBelowThreshold(
+    percent: number,
+    delta: LineDelta | undefined,
+    threshold: number
+): boolean {
+    if (delta && Math.abs(delta.percent) >= threshold) {
+        return false;
+    }
+    return percent < threshold;
+}
+
+/**
+ * Formats a delta against the baseline, e.g. "+3.2% / -40.00ms"
+ */
+function formatDelta(delta: LineDelta, unit: string): string {
+    const sign = (value: number) => (value > 0 ? '+' : value < 0 ? '-' : '±');
+    const magnitude = Math.abs(delta.value);
+
+    return `${sign(delta.percent)}${formatPercent(Math.abs(delta.percent))} / ${sign(delta.value)}${formatValue(magnitude, unit)}`;
+}
+
+/**
+ * Formats the cumulative value of a sample type for an inline hint: amounts of memory and
+ * time with their share of the profile, counts as they are
+ */
+export function formatSampleValue(total: number, percent: number, unit: string): string {
+    if (unit === 'bytes') {
+        return `${formatBytes(total)} (${formatPercent(percent)})`;
+    } else if (unit === 'count') {
+        return total.toLocaleString();
+    }
+    return total > 0
+        ? `${formatPercent(percent)} (${formatValue(total, unit)})`
+        : formatPercent(percent);
+}
+
+// Sample units of time, in nanoseconds
+const TIME_UNITS: Record<string, number> = {
+    nanoseconds: 1,
+    microseconds: 1e3,
+    milliseconds: 1e6,
+    seconds: 1e9,
+};
+
+/**
+ * Formats an absolute value in a profile's unit
+ */
+export function formatValue(value: number, unit: string): string {
+    if (TIME_UNITS[unit]) {
+        return formatNanoseconds(value * TIME_UNITS[unit]);
+    } else if (unit === 'bytes') {
+        return formatBytes(value);
+    } else if (unit === 'count' || unit === '') {
+        return Math.round(value).toLocaleString();
+    }
+    return `${Math.round(value).toLocaleString()} ${unit}`;
+}
+
+/**
+ * Diverging color for a change against the baseline: red for regressions, green for improvements
+ */
+function getDeltaColor(deltaPercent: number, scheme: string): string {
+    if (scheme === 'minimal') {
+        return 'rgba(128, 128, 128, 0.5)';
+    }
+
+    const magnitude = Math.abs(deltaPercent);
+    if (magnitude < 0.5) {
+        return 'rgba(160, 160, 160, 0.7)'; // Unchanged
+    }
+
+    if (deltaPercent > 0) {
+        if (magnitude >= 10) {
+            return 'rgba(255, 0, 0, 0.8)';
+        } else if (magnitude >= 2) {
+            return 'rgba(255, 80, 80, 0.7)';
+        }
+        return 'rgba(255, 150, 150, 0.7)';
+    }
+
+    if (magnitude >= 10) {
+        return 'rgba(0, 200, 0, 0.8)';
+    } else if (magnitude >= 2) {
+        return 'rgba(80, 220, 80, 0.7)';
+    }
+    return 'rgba(150, 238, 150, 0.7)';
+}
+
 /**
  * Formats nanoseconds to human-readable time format
  */
-function formatNanoseconds(nanoseconds: number): string {
+export function formatNanoseconds(nanoseconds: number): string {
     if (nanoseconds === 0) {
         return '0ns';
     }
@@ -233,7 +396,7 @@ function formatNanoseconds(nanoseconds: number): string {
 /**
  * Formats byte values to human-readable format
  */
-function formatBytes(bytes: number): string {
+export function formatBytes(bytes: number): string {
     if (bytes === 0) {
         return '0 B';
     }
@@ -253,3 +416,33 @@ function formatBytes(bytes: number): string {
         return `${value.toFixed(2)} ${sizes[i]}`;
     }
 }
+
+/**
+ * Renders values as a unicode block sparkline, averaging into at most `width` buckets
+ */
+export function renderSparkline(values: number[], width: number = 24): string {
+    if (values.length === 0) {
+        return '';
+    }
+
+    const blocks = '▁▂▃▄▅▆▇█';
+    const bucketCount = Math.min(width, values.length);
+    const buckets: number[] = [];
+    for (let b = 0; b < bucketCount; b++) {
+        const start = Math.floor((b * values.length) / bucketCount);
+        const end = Math.floor(((b + 1) * values.length) / bucketCount);
+        const slice = values.slice(start, Math.max(end, start + 1));
+        buckets.push(slice.reduce((sum, v) => sum + v, 0) / slice.length);
+    }
+
+    const min = Math.min(...buckets);
+    const max = Math.max(...buckets);
+    const range = max - min;
+
+    return buckets
+        .map((v) => {
+            const level = range > 0 ? Math.round(((v - min) / range) * (blocks.length - 1)) : 0;
+            return blocks[level];
+        })
+        .join('');
+}
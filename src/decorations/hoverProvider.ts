@@ -1,15 +1,26 @@
 import * as vscode from 'vscode';
-import { ProfileStore } from '../state/profileStore';
-import { LineMetrics } from '../parser/sourceMapper';
+import { ProfileStore, ProfileEntry, ProfileInfo } from '../state/profileStore';
+import { LineMetrics, LineDelta, getSampleValue } from '../parser/sourceMapper';
+import { getSampleTypeIndex } from '../parser/pprofParser';
+import { findFunctionsAtLine, findHeaviestCallSite } from '../parser/callSite';
+import { PyroscopeClient } from '../pyroscope/client';
+import { PathResolver } from '../utils/pathResolver';
+import { formatValue, renderSparkline } from './hintRenderer';
+import { getLogger, shouldLogDebug } from '../utils/logger';
+import { shortRevision } from '../utils/git';
 
 export class PyroscopeHoverProvider implements vscode.HoverProvider {
+    // Sparkline series per profile type and call site, valid for one session
+    private seriesCache: Map<string, Promise<number[] | null>> = new Map();
+    private seriesCacheSession: ProfileInfo | null = null;
+
     constructor(private profileStore: ProfileStore) {}
 
-    provideHover(
+    async provideHover(
         document: vscode.TextDocument,
         position: vscode.Position,
         token: vscode.CancellationToken
-    ): vscode.ProviderResult<vscode.Hover> {
+    ): Promise<vscode.Hover | null> {
         const lineNumber = position.line + 1; // VS Code lines are 0-indexed
         const filePath = document.uri.fsPath;
 
@@ -18,7 +29,7 @@ export class PyroscopeHoverProvider implements vscode.HoverProvider {
             return null;
         }
 
-        const sections: string[] = [];
+        const matches: { entry: ProfileEntry; metrics: LineMetrics }[] = [];
 
         loadedProfiles.forEach((profileName) => {
             const entry = this.profileStore.getProfileEntry(profileName);
@@ -32,109 +43,190 @@ export class PyroscopeHoverProvider implements vscode.HoverProvider {
                 return;
             }
 
-            sections.push(this.formatProfileSection(profileName, metrics, entry.unit));
+            matches.push({ entry, metrics });
         });
 
-        if (sections.length === 0) {
+        if (matches.length === 0) {
+            return null;
+        }
+
+        const trends = await Promise.all(
+            // The raw profile has the lines of the profiled revision
+            matches.map(({ entry, metrics }) =>
+                this.getTrend(entry, filePath, metrics.originalLine ?? lineNumber)
+            )
+        );
+        if (token.isCancellationRequested) {
             return null;
         }
 
+        const sections = matches.map(({ entry, metrics }, i) => {
+            let section = this.formatProfileSection(entry, metrics);
+            const trend = trends[i];
+            if (trend) {
+                section += `- **Trend**: \`${renderSparkline(trend)}\` peak ${formatValue(Math.max(...trend), entry.unit)}\n`;
+            }
+            return section;
+        });
+
+        // Untrusted: names below come from the profile file or server, so no command links
         const markdown = new vscode.MarkdownString();
-        markdown.isTrusted = true;
-        markdown.supportHtml = true;
         markdown.appendMarkdown('### 🔥 Pyroscope Profile Data\n\n');
+        const baseline = this.profileStore.getBaseline();
+        const comparisonLabel = this.profileStore.getProfileInfo()?.comparisonLabel;
+        if (comparisonLabel) {
+            markdown.appendMarkdown(`_Changes shown ${escapeMarkdown(comparisonLabel)}_\n\n`);
+        } else if (baseline && this.profileStore.isComparing()) {
+            markdown.appendMarkdown(
+                `_Compared against baseline: ${escapeMarkdown(baseline.info.name)}_\n\n`
+            );
+        }
+        const revision = this.profileStore.getProfileInfo()?.revision;
+        const originalLine = matches[0].metrics.originalLine;
+        if (revision && originalLine !== undefined) {
+            markdown.appendMarkdown(
+                `_Line ${originalLine} at ${escapeMarkdown(shortRevision(revision))}_\n\n`
+            );
+        }
         markdown.appendMarkdown(sections.join('\n\n---\n\n'));
 
         return new vscode.Hover(markdown);
     }
 
-    private formatProfileSection(name: string, metrics: LineMetrics, unit: string): string {
-        let section = `**${name.toUpperCase()} Profile**\n\n`;
+    /**
+     * Fetch the time series of the function on a line, scoped to its heaviest call site
+     * @returns Values per step, or null if sparklines are disabled or unavailable
+     */
+    private getTrend(
+        entry: ProfileEntry,
+        filePath: string,
+        line: number
+    ): Promise<number[] | null> {
+        const profileInfo = this.profileStore.getProfileInfo();
+        const query = profileInfo?.query;
+        const config = vscode.workspace.getConfiguration('pyroscope');
+        // SelectSeries cannot be scoped to spans, so span sessions get no sparklines
+        if (
+            !query ||
+            query.spanSelector ||
+            !entry.profile ||
+            !config.get<boolean>('hoverSparklines', true)
+        ) {
+            return Promise.resolve(null);
+        }
 
-        if (unit === 'nanoseconds') {
-            // CPU profile
-            section += `- **Self CPU**: ${this.formatPercent(metrics.selfCpuPercent)}`;
-            if (metrics.selfCpuNanoseconds > 0) {
-                section += ` (${this.formatNanoseconds(metrics.selfCpuNanoseconds)})`;
-            }
-            section += '\n';
-            section += `- **Cumulative CPU**: ${this.formatPercent(metrics.cpuPercent)}`;
-            if (metrics.cpuNanoseconds > 0) {
-                section += ` (${this.formatNanoseconds(metrics.cpuNanoseconds)})`;
-            }
-            section += '\n';
-            section += `- **Samples**: ${metrics.cpuSamples.toLocaleString()}\n`;
-        } else if (unit === 'bytes') {
-            // Memory profile
-            section += `- **Self Memory**: ${this.formatBytes(metrics.memoryBytes)} (${this.formatPercent(metrics.selfMemoryPercent)})\n`;
-            section += `- **Cumulative Memory**: ${this.formatPercent(metrics.memoryPercent)}\n`;
-            if (metrics.allocations > 0) {
-                section += `- **Allocations**: ${metrics.allocations.toLocaleString()}\n`;
-            }
-        } else if (unit === 'count') {
-            // Generic count (goroutines, blocks, etc.)
-            section += `- **Count**: ${metrics.cpuSamples.toLocaleString()}\n`;
-            section += `- **Percentage**: ${this.formatPercent(metrics.cpuPercent)}\n`;
-        } else {
-            // Unknown - show generic info
-            section += `- **Value**: ${this.formatPercent(metrics.cpuPercent)}\n`;
-            section += `- **Unit**: ${unit}\n`;
+        if (this.seriesCacheSession !== profileInfo) {
+            this.seriesCache.clear();
+            this.seriesCacheSession = profileInfo;
         }
 
-        return section;
-    }
+        const logger = getLogger();
+        const pathResolver = new PathResolver(logger);
+        const functionNames = findFunctionsAtLine(entry.profile, filePath, line, (filename) =>
+            pathResolver.resolveFilePath(filename)
+        );
+        if (functionNames.length === 0) {
+            return Promise.resolve(null);
+        }
 
-    private formatPercent(value: number): string {
-        if (value >= 10) {
-            return `**${value.toFixed(1)}%**`;
-        } else if (value >= 1) {
-            return `${value.toFixed(2)}%`;
-        } else {
-            return `${value.toFixed(3)}%`;
+        let valueIndex = getSampleTypeIndex(entry.profile, entry.sampleType);
+        if (valueIndex === -1) {
+            // pprof convention: the last sample type is the default
+            valueIndex = entry.profile.sampleTypes.length - 1;
         }
-    }
 
-    private formatNanoseconds(nanoseconds: number): string {
-        if (nanoseconds === 0) {
-            return '0ns';
+        const callSite = findHeaviestCallSite(entry.profile, functionNames[0], valueIndex);
+        if (!callSite) {
+            return Promise.resolve(null);
         }
 
-        const microseconds = nanoseconds / 1000;
-        const milliseconds = microseconds / 1000;
-        const seconds = milliseconds / 1000;
-        const minutes = seconds / 60;
-
-        if (minutes >= 1) {
-            return `${minutes.toFixed(2)}min`;
-        } else if (seconds >= 1) {
-            return `${seconds.toFixed(2)}s`;
-        } else if (milliseconds >= 1) {
-            return `${milliseconds.toFixed(2)}ms`;
-        } else if (microseconds >= 1) {
-            return `${microseconds.toFixed(2)}μs`;
-        } else {
-            return `${nanoseconds.toFixed(0)}ns`;
+        const key = `${entry.typeId}|${callSite.join(';')}`;
+        let trend = this.seriesCache.get(key);
+        if (!trend) {
+            const client = new PyroscopeClient(
+                query.serverUrl,
+                config.get<string>('authToken', '')
+            );
+            trend = client
+                .fetchSeries(
+                    query.appName,
+                    query.startTime,
+                    query.endTime,
+                    entry.typeId,
+                    query.environment,
+                    { callSite, labelMatchers: query.labelMatchers }
+                )
+                .then((series) => {
+                    // Without group_by there is a single series
+                    const values = series[0]?.points.map((point) => point.value) || [];
+                    if (shouldLogDebug()) {
+                        logger.debug(`Sparkline for ${functionNames[0]}: ${values.length} points`);
+                    }
+                    return values.length > 1 ? values : null;
+                })
+                .catch((error: any) => {
+                    logger.warn(
+                        `Failed to fetch sparkline for ${functionNames[0]}: ${error.message}`
+                    );
+                    return null;
+                });
+            this.seriesCache.set(key, trend);
         }
+
+        return trend;
     }
 
-    private formatBytes(bytes: number): string {
-        if (bytes === 0) {
-            return '0 B';
+    private formatProfileSection(entry: ProfileEntry, metrics: LineMetrics): string {
+        let section = `**${escapeMarkdown(entry.name.toUpperCase())} Profile**\n\n`;
+
+        const value = getSampleValue(metrics, entry.sampleType);
+        const unit = value.unit || entry.unit;
+        section += `- **Self**: ${this.formatSampleValue(value.self, value.selfPercent, unit)}\n`;
+        section += `- **Cumulative**: ${this.formatSampleValue(value.total, value.percent, unit)}\n`;
+
+        // Other sample types recorded with the same samples, e.g. alloc_objects next to alloc_space
+        Object.entries(metrics.values)
+            .filter(([, other]) => other !== value && other.total > 0)
+            .forEach(([sampleType, other]) => {
+                section += `- **${escapeMarkdown(sampleType)}**: ${this.formatSampleValue(other.total, other.percent, other.unit)}`;
+                section += ` (self ${formatValue(other.self, other.unit)})\n`;
+            });
+
+        if (metrics.delta) {
+            section += `- **Change**: ${this.formatDelta(metrics.delta, unit)}\n`;
         }
 
-        const k = 1024;
-        const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
-        const i = Math.floor(Math.log(bytes) / Math.log(k));
-        const value = bytes / Math.pow(k, i);
-
-        if (i === 0) {
-            return `${value.toLocaleString()} ${sizes[i]}`;
-        } else if (value >= 100) {
-            return `${value.toFixed(0)} ${sizes[i]}`;
-        } else if (value >= 10) {
-            return `${value.toFixed(1)} ${sizes[i]}`;
+        return section;
+    }
+
+    private formatSampleValue(value: number, percent: number, unit: string): string {
+        return value > 0
+            ? `${this.formatPercent(percent)} (${formatValue(value, unit)})`
+            : this.formatPercent(percent);
+    }
+
+    private formatDelta(delta: LineDelta, unit: string): string {
+        const sign = (value: number) => (value > 0 ? '+' : value < 0 ? '-' : '±');
+        const value = formatValue(Math.abs(delta.value), unit);
+
+        const icon = delta.percent > 0 ? '🔺' : delta.percent < 0 ? '🔻' : '';
+        return `${icon} ${sign(delta.percent)}${Math.abs(delta.percent).toFixed(2)}% (${sign(delta.value)}${value})`;
+    }
+
+    private formatPercent(value: number): string {
+        if (value >= 10) {
+            return `**${value.toFixed(1)}%**`;
+        } else if (value >= 1) {
+            return `${value.toFixed(2)}%`;
         } else {
-            return `${value.toFixed(2)} ${sizes[i]}`;
+            return `${value.toFixed(3)}%`;
         }
     }
 }
+
+/**
+ * Escape text from a profile or server so it renders literally in markdown
+ */
+function escapeMarkdown(text: string): string {
+    return text.replace(/[\\`*_{}[\]()#+\-.!<>|~&]/g, '\\$&');
+}
@@ -1,13 +1,39 @@
 import * as vscode from 'vscode';
 import { DecorationManager } from './decorations/decorationManager';
 import { ProfileStore } from './state/profileStore';
+import { LiveSession } from './state/liveSession';
+import { SessionHistory } from './state/sessionHistory';
+import { LineRemapper } from './state/lineRemapper';
+import { HotspotsTreeProvider } from './views/hotspotsView';
 import { registerLoadProfileCommand } from './commands/loadProfile';
 import { registerFetchFromPyroscopeCommand } from './commands/fetchFromPyroscope';
 import { registerToggleHintsCommand, registerClearProfileCommand } from './commands/toggleHints';
+import { registerShowFlameGraphCommand } from './commands/showFlameGraph';
+import { registerShowTimeSeriesCommand } from './commands/showTimeSeries';
+import { registerPinBaselineCommand, registerClearBaselineCommand } from './commands/baseline';
+import { registerCompareDeployCommand } from './commands/compareDeploy';
+import { registerFetchSpanProfileCommand } from './commands/fetchSpanProfile';
+import { registerToggleLiveModeCommand } from './commands/liveMode';
+import { registerRecentSessionsCommand } from './commands/recentSessions';
+import { registerToggleHotspotRankingCommand } from './commands/hotspots';
+import { registerHotspotNavigationCommands } from './commands/hotspotNavigation';
+import { registerFilterByLabelCommand } from './commands/filterByLabel';
+import { registerExportProfileCommand } from './commands/exportProfile';
+import { registerExportHotspotReportCommand } from './commands/exportHotspotReport';
+import { registerSetRevisionCommand } from './commands/revision';
+import { describeLabelFilter } from './parser/labelFilter';
+import {
+    registerRerunLastFetchCommand,
+    registerRunPresetCommand,
+    registerSavePresetCommand,
+} from './commands/presets';
 import { initializeLogger, getLogger } from './utils/logger';
+import { PathResolver } from './utils/pathResolver';
+import { shortRevision } from './utils/git';
 
 let decorationManager: DecorationManager;
 let profileStore: ProfileStore;
+let liveSession: LiveSession;
 let statusBarItem: vscode.StatusBarItem;
 
 export function activate(context: vscode.ExtensionContext) {
@@ -18,6 +44,22 @@ export function activate(context: vscode.ExtensionContext) {
     // Initialize core components
     profileStore = new ProfileStore();
     decorationManager = new DecorationManager(profileStore);
+    liveSession = new LiveSession(profileStore);
+    const sessionHistory = new SessionHistory(
+        profileStore,
+        liveSession,
+        context.workspaceState,
+        context.storageUri || context.globalStorageUri
+    );
+    // Follow profiled lines to the working copy when the session is tied to a git revision
+    const lineRemapper = new LineRemapper(profileStore);
+    context.subscriptions.push(liveSession, sessionHistory, lineRemapper);
+
+    // Sidebar list of the hottest files, so there is somewhere to start without open editors
+    const hotspotsProvider = new HotspotsTreeProvider(profileStore);
+    context.subscriptions.push(
+        vscode.window.registerTreeDataProvider('pyroscope.hotspots', hotspotsProvider)
+    );
 
     // Create status bar item
     statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
@@ -26,16 +68,45 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Update status bar when profile changes
     profileStore.onProfileChanged(() => {
+        // Hotspot navigation keybindings only apply while a profile is loaded
+        vscode.commands.executeCommand(
+            'setContext',
+            'pyroscope.hasProfile',
+            profileStore.hasProfile()
+        );
         updateStatusBar();
         decorationManager.updateDecorations();
+        hotspotsProvider.refresh();
+    });
+    liveSession.onDidChange(() => updateStatusBar());
+    profileStore.onLineMappingChanged(() => {
+        decorationManager.updateDecorations();
+        hotspotsProvider.refresh();
     });
 
     // Register commands
     context.subscriptions.push(
         registerLoadProfileCommand(profileStore),
-        registerFetchFromPyroscopeCommand(profileStore),
+        registerFetchFromPyroscopeCommand(profileStore, context.workspaceState),
+        registerRerunLastFetchCommand(profileStore, context.workspaceState),
+        registerRunPresetCommand(profileStore, context.workspaceState),
+        registerSavePresetCommand(context.workspaceState),
         registerToggleHintsCommand(decorationManager),
-        registerClearProfileCommand(profileStore)
+        registerClearProfileCommand(profileStore),
+        registerShowFlameGraphCommand(profileStore),
+        registerShowTimeSeriesCommand(profileStore),
+        registerPinBaselineCommand(profileStore),
+        registerClearBaselineCommand(profileStore),
+        registerCompareDeployCommand(profileStore),
+        registerFetchSpanProfileCommand(profileStore),
+        registerToggleLiveModeCommand(profileStore, liveSession),
+        registerRecentSessionsCommand(profileStore, sessionHistory),
+        registerToggleHotspotRankingCommand(),
+        registerHotspotNavigationCommands(profileStore),
+        registerFilterByLabelCommand(profileStore),
+        registerExportProfileCommand(profileStore),
+        registerExportHotspotReportCommand(profileStore, lineRemapper),
+        registerSetRevisionCommand(profileStore)
     );
 
     // Listen to active editor changes
@@ -45,15 +116,36 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    // Keep the path resolution index up to date as workspace files come and go
+    const fileWatcher = vscode.workspace.createFileSystemWatcher('**/*', false, true, false);
+    context.subscriptions.push(
+        fileWatcher,
+        fileWatcher.onDidCreate((uri) => PathResolver.addPath(uri)),
+        fileWatcher.onDidDelete((uri) => PathResolver.removePath(uri)),
+        vscode.workspace.onDidChangeWorkspaceFolders(() => PathResolver.clearCache())
+    );
+
     // Listen to configuration changes
     context.subscriptions.push(
         vscode.workspace.onDidChangeConfiguration((e) => {
+            if (
+                e.affectsConfiguration('pyroscope.pathMappings') ||
+                e.affectsConfiguration('pyroscope.useIndexedPathResolution')
+            ) {
+                PathResolver.clearCache();
+            }
+            if (e.affectsConfiguration('pyroscope.hotspots')) {
+                hotspotsProvider.refresh();
+            }
             if (e.affectsConfiguration('pyroscope')) {
-                decorationManager.updateDecorations();
+                decorationManager.onConfigurationChanged(e);
             }
         })
     );
 
+    // Bring back the session that was loaded before the window was reloaded
+    sessionHistory.restoreLatest();
+
     // Register debug info command
     context.subscriptions.push(
         vscode.commands.registerCommand('pyroscope.showDebugInfo', () => {
@@ -66,7 +158,11 @@ export function activate(context: vscode.ExtensionContext) {
             logger.info(`Display mode: ${config.get('displayMode')}`);
             logger.info(`Color scheme: ${config.get('colorScheme')}`);
             logger.info(`Threshold: ${config.get('threshold')}%`);
+
+            const baseline = profileStore.getBaseline();
+            logger.info(`Baseline: ${baseline ? baseline.info.name : '(none)'}`);
             logger.info(`Debug logging: ${config.get('debugLogging')}`);
+            logger.info(`Indexed path resolution: ${config.get('useIndexedPathResolution')}`);
 
             const pathMappings = config.get<any[]>('pathMappings', []);
             logger.info(`Path mappings: ${pathMappings.length} configured`);
@@ -107,8 +203,43 @@ function updateStatusBar() {
     const profileInfo = profileStore.getProfileInfo();
     if (profileInfo) {
         const profileNames = profileStore.getLoadedProfileNames();
+        const baseline = profileStore.getBaseline();
         statusBarItem.text = `$(flame) ${profileInfo.name}`;
-        statusBarItem.tooltip = `Loaded profiles: ${profileNames.join(', ')}\nFetched: ${profileInfo.timestamp}\nClick to clear`;
+        statusBarItem.tooltip = `Loaded profiles: ${profileNames.join(', ')}\nFetched: ${profileInfo.timestamp}`;
+        if (baseline && profileStore.isComparing()) {
+            statusBarItem.text += ` $(diff) vs ${baseline.info.name}`;
+            statusBarItem.tooltip += `\nBaseline: ${baseline.info.name}`;
+        } else if (baseline) {
+            statusBarItem.text += ' $(pinned)';
+            statusBarItem.tooltip += '\nPinned as baseline';
+        }
+        if (profileInfo.revision) {
+            statusBarItem.text += ` $(git-commit) ${shortRevision(profileInfo.revision)}`;
+            statusBarItem.tooltip += `\nLines mapped from revision ${profileInfo.revision}`;
+        }
+        const labelFilter = profileStore
+            .getSessionEntries()
+            .find((entry) => entry.labelFilter)?.labelFilter;
+        if (labelFilter) {
+            statusBarItem.text += ' $(filter)';
+            statusBarItem.tooltip += `\nFiltered by labels: ${describeLabelFilter(labelFilter)}`;
+        }
+        if (liveSession.isActive()) {
+            const lastRefresh = liveSession.getLastRefresh();
+            if (liveSession.isPaused()) {
+                statusBarItem.text += ' $(debug-pause) live paused';
+            } else {
+                statusBarItem.text += ` $(pulse) live ${lastRefresh ? lastRefresh.toLocaleTimeString() : '…'}`;
+            }
+            statusBarItem.tooltip += lastRefresh
+                ? `\nLive: last refreshed ${lastRefresh.toLocaleTimeString()}`
+                : '\nLive: waiting for first refresh';
+            const lastError = liveSession.getLastError();
+            if (lastError) {
+                statusBarItem.tooltip += `\nLast refresh failed: ${lastError}`;
+            }
+        }
+        statusBarItem.tooltip += '\nClick to clear';
         statusBarItem.show();
     } else {
         statusBarItem.hide();
@@ -0,0 +1,180 @@
+import { ParsedProfile } from './pprofParser';
+
+/**
+ * Calls from one function to another, summed over all samples
+ */
+export interface CallEdge {
+    value: number;
+    lines: Set<number>; // Lines in the caller the calls are made from
+}
+
+export interface CallGraphFunction {
+    key: string; // Name, file and start line: names alone repeat across files (init, main, ...)
+    name: string;
+    filename: string;
+    startLine: number;
+    self: number;
+    total: number;
+    sampledLines: Set<number>;
+    callers: Map<string, CallEdge>; // By function key
+    callees: Map<string, CallEdge>; // By function key
+}
+
+export interface CallGraph {
+    total: number;
+    functions: Map<string, CallGraphFunction>; // By function key
+}
+
+interface Frame {
+    name: string;
+    filename: string;
+    startLine: number;
+    line: number;
+}
+
+/**
+ * Build a caller/callee graph of functions from the sample stacks of a profile.
+ * Recursive calls are counted once per sample, so a function's total never exceeds
+ * the profile total.
+ * @param valueIndex - Index of the sample type to weigh calls by
+ */
+export function buildCallGraph(profile: ParsedProfile, valueIndex: number): CallGraph {
+    const graph: CallGraph = { total: 0, functions: new Map() };
+
+    profile.samples.forEach((sample) => {
+        const value = sample.values[valueIndex] || 0;
+        if (value === 0) {
+            return;
+        }
+        graph.total += value;
+
+        const frames = getFrames(sample.locationIds, profile);
+        if (frames.length === 0) {
+            return;
+        }
+
+        getFunction(graph, frames[0]).self += value;
+
+        const seenFunctions = new Set<string>();
+        const seenEdges = new Set<string>();
+        frames.forEach((frame, i) => {
+            const func = getFunction(graph, frame);
+            func.sampledLines.add(frame.line);
+            if (!seenFunctions.has(func.key)) {
+                seenFunctions.add(func.key);
+                func.total += value;
+            }
+
+            // frames are leaf first: the next frame is the caller
+            const caller = frames[i + 1];
+            if (!caller) {
+                return;
+            }
+            const callerFunc = getFunction(graph, caller);
+            const key = `${callerFunc.key}\n${func.key}`;
+            const counted = seenEdges.has(key);
+            seenEdges.add(key);
+            addEdge(callerFunc.callees, func.key, caller.line, value, counted);
+            addEdge(func.callers, callerFunc.key, caller.line, value, counted);
+        });
+    });
+
+    return graph;
+}
+
+/**
+ * Find the function a source line belongs to: a function sampled at that line,
+ * else the closest function declared above it
+ * @param resolve - Maps a profile filename to a workspace path (null if unresolved)
+ */
+export function findFunctionAt(
+    graph: CallGraph,
+    filePath: string,
+    line: number,
+    resolve: (filename: string) => string | null
+): CallGraphFunction | null {
+    let sampled: CallGraphFunction | null = null;
+    let enclosing: CallGraphFunction | null = null;
+
+    graph.functions.forEach((func) => {
+        if (!func.filename || resolve(func.filename) !== filePath) {
+            return;
+        }
+        if (func.sampledLines.has(line) && (!sampled || func.total > sampled.total)) {
+            sampled = func;
+        }
+        if (
+            func.startLine > 0 &&
+            func.startLine <= line &&
+            (!enclosing || func.startLine > enclosing.startLine)
+        ) {
+            enclosing = func;
+        }
+    });
+
+    return sampled || enclosing;
+}
+
+/**
+ * Flatten a sample's locations into frames, leaf first. Inlined functions of a
+ * location come before the function they were inlined into.
+ */
+function getFrames(locationIds: number[], profile: ParsedProfile): Frame[] {
+    const frames: Frame[] = [];
+    locationIds.forEach((locationId) => {
+        const location = profile.locations.get(locationId);
+        location?.lines.forEach((l) => {
+            const func = profile.functions.get(l.functionId);
+            const name = func ? func.name || func.systemName : '';
+            if (name) {
+                frames.push({
+                    name,
+                    filename: func!.filename,
+                    startLine: func!.startLine,
+                    line: l.line,
+                });
+            }
+        });
+    });
+    return frames;
+}
+
+function getFunction(graph: CallGraph, frame: Frame): CallGraphFunction {
+    const key = `${frame.name}\0${frame.filename}\0${frame.startLine}`;
+    let func = graph.functions.get(key);
+    if (!func) {
+        func = {
+            key,
+            name: frame.name,
+            filename: frame.filename,
+            startLine: frame.startLine,
+            self: 0,
+            total: 0,
+            sampledLines: new Set(),
+            callers: new Map(),
+            callees: new Map(),
+        };
+        graph.functions.set(key, func);
+    }
+    return func;
+}
+
+function addEdge(
+    edges: Map<string, CallEdge>,
+    key: string,
+    line: number,
+    value: number,
+    counted: boolean
+): void {
+    let edge = edges.get(key);
+    if (!edge) {
+        edge = { value: 0, lines: new Set() };
+        edges.set(key, edge);
+    }
+    if (line > 0) {
+        edge.lines.add(line);
+    }
+    if (!counted) {
+        edge.value += value;
+    }
+}
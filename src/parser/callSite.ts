@@ -0,0 +1,98 @@
+import { ParsedProfile } from './pprofParser';
+
+/**
+ * Find the names of the functions sampled at a source line
+ * @param resolve - Maps a profile filename to a workspace path (null if unresolved)
+ */
+export function findFunctionsAtLine(
+    profile: ParsedProfile,
+    filePath: string,
+    line: number,
+    resolve: (filename: string) => string | null
+): string[] {
+    const names = new Set<string>();
+
+    profile.locations.forEach((location) => {
+        location.lines.forEach((l) => {
+            if (l.line !== line) {
+                return;
+            }
+
+            const func = profile.functions.get(l.functionId);
+            const name = func ? func.name || func.systemName : '';
+            if (name && func!.filename && resolve(func!.filename) === filePath) {
+                names.add(name);
+            }
+        });
+    });
+
+    return Array.from(names);
+}
+
+/**
+ * Find the heaviest stack path from the root down to a function, for use as a
+ * StackTraceSelector call site. Recursive frames end the path at the outermost call.
+ * @param valueIndex - Index of the sample type to weigh paths by
+ * @returns Function names, root first, or null if the function was never sampled
+ */
+export function findHeaviestCallSite(
+    profile: ParsedProfile,
+    functionName: string,
+    valueIndex: number
+): string[] | null {
+    const totals = new Map<string, { path: string[]; value: number }>();
+
+    profile.samples.forEach((sample) => {
+        const value = sample.values[valueIndex] || 0;
+        if (value === 0) {
+            return;
+        }
+
+        // Same root-to-leaf walk as buildFlameGraph, stopping at the function
+        const path: string[] = [];
+        let found = false;
+        for (let i = sample.locationIds.length - 1; i >= 0 && !found; i--) {
+            const location = profile.locations.get(sample.locationIds[i]);
+            if (!location) {
+                continue;
+            }
+
+            for (let j = location.lines.length - 1; j >= 0; j--) {
+                const func = profile.functions.get(location.lines[j].functionId);
+                const name = func ? func.name || func.systemName : '';
+                if (!name) {
+                    continue;
+                }
+
+                path.push(name);
+                if (name === functionName) {
+                    found = true;
+                    break;
+                }
+            }
+        }
+
+        if (!found) {
+            return;
+        }
+
+        const key = path.join('\n');
+        const current = totals.get(key);
+        if (current) {
+            current.value += value;
+        } else {
+            totals.set(key, { path, value });
+        }
+    });
+
+    let heaviest: string[] | null = null;
+    let heaviestValue = 0;
+    totals.forEach((candidate) => {
+        if (candidate.value > heaviestValue) {
+            heaviest = candidate.path;
+            heaviestValue = candidate.value;
+        }
+    });
+
+    return heaviest;
+}
@@ -0,0 +1,178 @@
+import { fileURLToPath } from 'url';
+import { ParsedProfile } from './pprofParser';
+import { ProfileBuilder, SourceFrame } from './profileBuilder';
+
+/**
+ * A node of the call tree in a V8 CPU profile (.cpuprofile)
+ */
+interface CpuProfileNode {
+    id: number;
+    callFrame: {
+        functionName: string;
+        url: string;
+        lineNumber: number; // 0-based, -1 if unknown
+        columnNumber: number;
+    };
+    hitCount?: number;
+    children?: number[];
+    positionTicks?: { line: number; ticks: number }[]; // 1-based lines within the function
+}
+
+interface CpuProfile {
+    nodes: CpuProfileNode[];
+    startTime: number; // Microseconds
+    endTime: number; // Microseconds
+    samples?: number[]; // Node ID per sample
+    timeDeltas?: number[]; // Microseconds since the previous sample
+}
+
+// Pseudo-frames that are not code: the tree root and time the VM sat idle
+const SKIPPED_FRAMES = ['(root)', '(idle)'];
+
+/**
+ * Check whether JSON text looks like a V8 CPU profile
+ */
+export function isCpuProfile(head: string): boolean {
+    return head.trimStart().startsWith('{') && head.includes('"callFrame"');
+}
+
+/**
+ * Parses a V8 CPU profile, as written by `node --cpu-prof` and Chrome DevTools, into a
+ * profile with sample counts and CPU time.
+ *
+ * V8 records where in a function each tick landed (positionTicks) but not from which
+ * line a function was called, so self time goes to the exact lines while callers
+ * are attributed at their declaration line.
+ */
+export function parseCpuProfile(text: string): ParsedProfile {
+    let cpuProfile: CpuProfile;
+    try {
+        cpuProfile = JSON.parse(text);
+    } catch (error) {
+        const errMsg = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to parse profile: ${errMsg}`);
+    }
+    if (!Array.isArray(cpuProfile.nodes)) {
+        throw new Error('Failed to parse profile: not a V8 CPU profile');
+    }
+
+    const nodes = new Map<number, CpuProfileNode>();
+    const parents = new Map<number, number>();
+    cpuProfile.nodes.forEach((node) => {
+        nodes.set(node.id, node);
+        node.children?.forEach((child) => parents.set(child, node.id));
+    });
+
+    const { hits, selfTime } = collectSelfTime(cpuProfile);
+
+    const builder = new ProfileBuilder([
+        { type: 'samples', unit: 'count' },
+        { type: 'cpu', unit: 'nanoseconds' },
+    ]);
+
+    // Location IDs of a node's frame at its declaration line, followed by its callers
+    const callerStacks = new Map<number, number[]>();
+    const getCallerStack = (id: number | undefined): number[] => {
+        const node = id !== undefined ? nodes.get(id) : undefined;
+        if (!node || node.callFrame.functionName === '(root)') {
+            return [];
+        }
+
+        let stack = callerStacks.get(node.id);
+        if (!stack) {
+            const frame = toSourceFrame(node, getDeclarationLine(node));
+            stack = [builder.addFrame(frame), ...getCallerStack(parents.get(node.id))];
+            callerStacks.set(node.id, stack);
+        }
+        return stack;
+    };
+
+    hits.forEach((count, id) => {
+        const node = nodes.get(id);
+        if (!node || SKIPPED_FRAMES.includes(node.callFrame.functionName)) {
+            return;
+        }
+
+        const callers = getCallerStack(parents.get(id));
+        const nanoseconds = (selfTime.get(id) || 0) * 1000;
+        const positions = (node.positionTicks || []).filter((tick) => tick.ticks > 0);
+        const positionTotal = positions.reduce((sum, tick) => sum + tick.ticks, 0);
+
+        if (positionTotal === 0) {
+            const leaf = builder.addFrame(toSourceFrame(node, getDeclarationLine(node)));
+            builder.addSample([leaf, ...callers], [count, nanoseconds]);
+            return;
+        }
+
+        // Split the node's time across the lines its ticks landed on
+        positions.forEach((tick) => {
+            const leaf = builder.addFrame(toSourceFrame(node, tick.line));
+            builder.addSample(
+                [leaf, ...callers],
+                [tick.ticks, (nanoseconds * tick.ticks) / positionTotal]
+            );
+        });
+    });
+
+    if (builder.getSampleCount() === 0) {
+        throw new Error('Failed to parse profile: the CPU profile has no samples');
+    }
+
+    return builder.build(
+        cpuProfile.startTime * 1000,
+        (cpuProfile.endTime - cpuProfile.startTime) * 1000
+    );
+}
+
+/**
+ * Sum the samples and time (in microseconds) spent in each node. Each sample lasts
+ * until the next one; profiles without a sample list spread the duration by hitCount.
+ */
+function collectSelfTime(cpuProfile: CpuProfile): {
+    hits: Map<number, number>;
+    selfTime: Map<number, number>;
+} {
+    const hits = new Map<number, number>();
+    const selfTime = new Map<number, number>();
+    const samples = cpuProfile.samples || [];
+    const deltas = cpuProfile.timeDeltas || [];
+
+    if (samples.length === 0) {
+        const totalHits = cpuProfile.nodes.reduce((sum, node) => sum + (node.hitCount || 0), 0);
+        const interval =
+            totalHits > 0 ? (cpuProfile.endTime - cpuProfile.startTime) / totalHits : 0;
+        cpuProfile.nodes.forEach((node) => {
+            if (node.hitCount) {
+                hits.set(node.id, node.hitCount);
+                selfTime.set(node.id, node.hitCount * interval);
+            }
+        });
+        return { hits, selfTime };
+    }
+
+    let timestamp = cpuProfile.startTime;
+    const timestamps = samples.map((_, i) => (timestamp += deltas[i] || 0));
+    samples.forEach((id, i) => {
+        const end = i + 1 < samples.length ? timestamps[i + 1] : cpuProfile.endTime;
+        hits.set(id, (hits.get(id) || 0) + 1);
+        selfTime.set(id, (selfTime.get(id) || 0) + Math.max(0, end - timestamps[i]));
+    });
+    return { hits, selfTime };
+}
+
+function getDeclarationLine(node: CpuProfileNode): number {
+    return node.callFrame.lineNumber >= 0 ? node.callFrame.lineNumber + 1 : 0;
+}
+
+function toSourceFrame(node: CpuProfileNode, line: number): SourceFrame {
+    const { functionName, url } = node.callFrame;
+    let filename = url;
+    if (url.startsWith('file://')) {
+        try {
+            filename = fileURLToPath(url);
+        } catch {
+            // Keep the URL; the path resolver may still match it
+        }
+    }
+    return { name: functionName || '(anonymous)', filename, line };
+}
@@ -0,0 +1,124 @@
+import { ParsedProfile } from './pprofParser';
+
+/**
+ * Flame graph in Pyroscope's wire format (querier.v1.FlameGraph).
+ * Each level is a flat list of nodes, 4 numbers per node:
+ * [x offset from the end of the previous node, total, self, index into names]
+ */
+export interface FlameGraph {
+    names: string[];
+    levels: number[][];
+    total: number;
+    maxSelf: number;
+}
+
+interface TreeNode {
+    name: string;
+    total: number;
+    self: number;
+    children: Map<string, TreeNode>;
+}
+
+/**
+ * Builds a flame graph from parsed profile samples, grouping frames by function
+ * name the same way Pyroscope's SelectMergeStacktraces does
+ * @param profile - Parsed pprof profile
+ * @param valueIndex - Index of the sample type to weigh frames by
+ */
+export function buildFlameGraph(profile: ParsedProfile, valueIndex: number): FlameGraph {
+    const root: TreeNode = { name: 'total', total: 0, self: 0, children: new Map() };
+
+    profile.samples.forEach((sample) => {
+        const value = sample.values[valueIndex] || 0;
+        if (value === 0) {
+            return;
+        }
+
+        root.total += value;
+        let node = root;
+
+        // locationIds are leaf first, and lines within a location are innermost first,
+        // so walk both in reverse to go from root to leaf
+        for (let i = sample.locationIds.length - 1; i >= 0; i--) {
+            const location = profile.locations.get(sample.locationIds[i]);
+            if (!location) {
+                continue;
+            }
+
+            for (let j = location.lines.length - 1; j >= 0; j--) {
+                const func = profile.functions.get(location.lines[j].functionId);
+                const name = func ? func.name || func.systemName : '';
+                if (!name) {
+                    continue;
+                }
+
+                let child = node.children.get(name);
+                if (!child) {
+                    child = { name, total: 0, self: 0, children: new Map() };
+                    node.children.set(name, child);
+                }
+                child.total += value;
+                node = child;
+            }
+        }
+
+        node.self += value;
+    });
+
+    return treeToFlameGraph(root);
+}
+
+/**
+ * Flattens a call tree into the level-based flame graph format
+ */
+function treeToFlameGraph(root: TreeNode): FlameGraph {
+    const names: string[] = [];
+    const nameIndex = new Map<string, number>();
+    const levels: number[][] = [];
+    const levelEnds: number[] = [];
+    let maxSelf = 0;
+
+    const getNameIndex = (name: string): number => {
+        let index = nameIndex.get(name);
+        if (index === undefined) {
+            index = names.length;
+            names.push(name);
+            nameIndex.set(name, index);
+        }
+        return index;
+    };
+
+    const visit = (node: TreeNode, depth: number, x: number): void => {
+        if (!levels[depth]) {
+            levels[depth] = [];
+            levelEnds[depth] = 0;
+        }
+
+        levels[depth].push(x - levelEnds[depth], node.total, node.self, getNameIndex(node.name));
+        levelEnds[depth] = x + node.total;
+        maxSelf = Math.max(maxSelf, node.self);
+
+        // Widest children first, matching Pyroscope's ordering
+        let childX = x;
+        Array.from(node.children.values())
+            .sort((a, b) => b.total - a.total)
+            .forEach((child) => {
+                visit(child, depth + 1, childX);
+                childX += child.total;
+            });
+    };
+
+    visit(root, 0, 0);
+
+    return { names, levels, total: root.total, maxSelf };
+}
+
+/**
+ * Differential flame graph in Pyroscope's wire format (querier.v1.FlameGraphDiff).
+ * Each node takes 7 numbers per level:
+ * [left offset, left total, left self, right offset, right total, right self, index into names]
+ */
+export interface FlameGraphDiff extends FlameGraph {
+    leftTicks: number;
+    rightTicks: number;
+}
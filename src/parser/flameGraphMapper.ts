@@ -0,0 +1,319 @@
+import { ParsedProfile } from './pprofParser';
+import { FlameGraph, FlameGraphDiff } from './flameGraph';
+import { LineMetrics, ProfileMetrics, FileMetrics, createEmptyLineMetrics } from './sourceMapper';
+import { PathResolver } from '../utils/pathResolver';
+import { getLogger } from '../utils/logger';
+
+/**
+ * Source location of a function, as recorded in a pprof profile
+ */
+export interface FunctionLocation {
+    filename: string;
+    line: number;
+}
+
+/**
+ * Per-function totals aggregated from a differential flame graph
+ */
+export interface FunctionDiffTotals {
+    leftTotal: number;
+    leftSelf: number;
+    rightTotal: number;
+    rightSelf: number;
+}
+
+/**
+ * Per-function totals aggregated from a flame graph
+ */
+export interface FunctionTotals {
+    total: number;
+    self: number;
+}
+
+interface FlameNode {
+    name: string;
+    start: number;
+    end: number;
+    values: number[];
+    parent: FlameNode | null;
+}
+
+/**
+ * Flame graphs only carry function names. Collect the file and line of each function
+ * from a pprof profile so that flame graph nodes can be placed in source.
+ * Uses the function's start line, or its first sampled line if that is missing.
+ */
+export function collectFunctionLocations(profile: ParsedProfile): Map<string, FunctionLocation> {
+    const firstSampledLine = new Map<number, number>();
+    profile.locations.forEach((location) => {
+        location.lines.forEach((l) => {
+            const current = firstSampledLine.get(l.functionId);
+            if (l.line > 0 && (current === undefined || l.line < current)) {
+                firstSampledLine.set(l.functionId, l.line);
+            }
+        });
+    });
+
+    const locations = new Map<string, FunctionLocation>();
+    profile.functions.forEach((func) => {
+        const name = func.name || func.systemName;
+        if (!name || !func.filename || locations.has(name)) {
+            return;
+        }
+
+        const line = func.startLine || firstSampledLine.get(func.id) || 0;
+        if (line > 0) {
+            locations.set(name, { filename: func.filename, line });
+        }
+    });
+
+    return locations;
+}
+
+/**
+ * Sum totals per function name across all nodes of a flame graph.
+ * Totals of recursive calls are only counted at the outermost frame.
+ */
+export function aggregateFlameGraph(flameGraph: FlameGraph): Map<string, FunctionTotals> {
+    const totals = new Map<string, FunctionTotals>();
+
+    walkFlameGraph(flameGraph.names, flameGraph.levels, 4, [0], [1], (node, recursive) => {
+        let entry = totals.get(node.name);
+        if (!entry) {
+            entry = { total: 0, self: 0 };
+            totals.set(node.name, entry);
+        }
+
+        entry.self += node.values[2];
+        if (!recursive) {
+            entry.total += node.values[1];
+        }
+    });
+
+    return totals;
+}
+
+/**
+ * Map a flame graph onto source lines. Flame graphs have no line numbers, so each
+ * function becomes a single line entry at its declaration.
+ * @param sampleType - Sample type of the profile type the flame graph was requested for
+ * @param unit - Sample unit of that sample type
+ */
+export function mapFlameGraphToSource(
+    flameGraph: FlameGraph,
+    locations: Map<string, FunctionLocation>,
+    pathResolver: PathResolver,
+    sampleType: string,
+    unit: string
+): ProfileMetrics {
+    const logger = getLogger();
+    const metricsMap: ProfileMetrics = new Map();
+    let unmatched = 0;
+
+    aggregateFlameGraph(flameGraph).forEach((totals, name) => {
+        if (totals.total === 0) {
+            return;
+        }
+
+        const metrics = createFunctionLineMetrics(
+            metricsMap,
+            name,
+            locations.get(name),
+            pathResolver
+        );
+        if (!metrics) {
+            unmatched++;
+            return;
+        }
+
+        const percent = flameGraph.total > 0 ? (totals.total / flameGraph.total) * 100 : 0;
+        const selfPercent = flameGraph.total > 0 ? (totals.self / flameGraph.total) * 100 : 0;
+        metrics.values[sampleType] = {
+            unit,
+            self: totals.self,
+            total: totals.total,
+            selfPercent,
+            percent,
+        };
+    });
+
+    logger.info(
+        `Mapped flame graph to ${metricsMap.size} files (${unmatched} functions without a source location)`
+    );
+
+    return metricsMap;
+}
+
+/**
+ * Sum left/right totals per function name across all nodes of a diff flame graph.
+ * Totals of recursive calls are only counted at the outermost frame.
+ */
+export function aggregateFlameGraphDiff(diff: FlameGraphDiff): Map<string, FunctionDiffTotals> {
+    const totals = new Map<string, FunctionDiffTotals>();
+
+    // In combined coordinates a node spans left + right, which keeps children nested in parents
+    walkFlameGraph(diff.names, diff.levels, 7, [0, 3], [1, 4], (node, recursive) => {
+        let entry = totals.get(node.name);
+        if (!entry) {
+            entry = { leftTotal: 0, leftSelf: 0, rightTotal: 0, rightSelf: 0 };
+            totals.set(node.name, entry);
+        }
+
+        entry.leftSelf += node.values[2];
+        entry.rightSelf += node.values[5];
+        if (!recursive) {
+            entry.leftTotal += node.values[1];
+            entry.rightTotal += node.values[4];
+        }
+    });
+
+    return totals;
+}
+
+/**
+ * Map a differential flame graph onto source lines. Each function becomes a line entry
+ * at its declaration with the "after" values and a delta against "before".
+ * @param sampleType - Sample type of the profile type the diff was requested for
+ * @param unit - Sample unit of that sample type
+ */
+export function mapFlameGraphDiffToSource(
+    diff: FlameGraphDiff,
+    locations: Map<string, FunctionLocation>,
+    pathResolver: PathResolver,
+    sampleType: string,
+    unit: string
+): ProfileMetrics {
+    const logger = getLogger();
+    const metricsMap: ProfileMetrics = new Map();
+    let unmatched = 0;
+
+    aggregateFlameGraphDiff(diff).forEach((totals, name) => {
+        if (totals.leftTotal === 0 && totals.rightTotal === 0) {
+            return;
+        }
+
+        const metrics = createFunctionLineMetrics(
+            metricsMap,
+            name,
+            locations.get(name),
+            pathResolver
+        );
+        if (!metrics) {
+            unmatched++;
+            return;
+        }
+
+        const leftPercent = diff.leftTicks > 0 ? (totals.leftTotal / diff.leftTicks) * 100 : 0;
+        const rightPercent = diff.rightTicks > 0 ? (totals.rightTotal / diff.rightTicks) * 100 : 0;
+        const rightSelfPercent =
+            diff.rightTicks > 0 ? (totals.rightSelf / diff.rightTicks) * 100 : 0;
+
+        metrics.values[sampleType] = {
+            unit,
+            self: totals.rightSelf,
+            total: totals.rightTotal,
+            selfPercent: rightSelfPercent,
+            percent: rightPercent,
+        };
+        metrics.delta = {
+            percent: rightPercent - leftPercent,
+            value: totals.rightTotal - totals.leftTotal,
+        };
+    });
+
+    logger.info(
+        `Mapped diff to ${metricsMap.size} files (${unmatched} functions without a source location)`
+    );
+
+    return metricsMap;
+}
+
+/**
+ * Add an empty line entry at a function's declaration
+ * @returns null if the function has no location or its file is not in the workspace
+ */
+function createFunctionLineMetrics(
+    metricsMap: ProfileMetrics,
+    functionName: string,
+    location: FunctionLocation | undefined,
+    pathResolver: PathResolver
+): LineMetrics | null {
+    const resolvedPath = location ? pathResolver.resolveFilePath(location.filename) : null;
+    if (!location || !resolvedPath) {
+        return null;
+    }
+
+    let fileMetrics: FileMetrics | undefined = metricsMap.get(resolvedPath);
+    if (!fileMetrics) {
+        fileMetrics = new Map();
+        metricsMap.set(resolvedPath, fileMetrics);
+    }
+
+    const metrics = createEmptyLineMetrics(resolvedPath, location.line);
+    metrics.functionName = functionName;
+    fileMetrics.set(location.line, metrics);
+    return metrics;
+}
+
+/**
+ * Decode flame graph levels into nodes and visit each one with its parent chain resolved
+ * @param stride - Numbers per node in a level
+ * @param offsetColumns - Columns holding x offsets, summed to get the combined offset
+ * @param totalColumns - Columns holding totals, summed to get the combined width
+ * @param visit - Called for every node except the root, with whether an ancestor has the same name
+ */
+function walkFlameGraph(
+    names: string[],
+    levels: number[][],
+    stride: number,
+    offsetColumns: number[],
+    totalColumns: number[],
+    visit: (node: FlameNode, recursive: boolean) => void
+): void {
+    let parents: FlameNode[] = [];
+
+    levels.forEach((level, depth) => {
+        const nodes: FlameNode[] = [];
+        let x = 0;
+        let parentIndex = 0;
+
+        for (let i = 0; i < level.length; i += stride) {
+            const values = level.slice(i, i + stride);
+            const width = totalColumns.reduce((sum, column) => sum + values[column], 0);
+            x += offsetColumns.reduce((sum, column) => sum + values[column], 0);
+
+            // Levels are ordered, so the parent is the first node on the level above ending after x
+            while (parentIndex < parents.length && parents[parentIndex].end <= x) {
+                parentIndex++;
+            }
+            const parent = parents[parentIndex] || null;
+
+            const node: FlameNode = {
+                name: names[values[stride - 1]] || '',
+                start: x,
+                end: x + width,
+                values,
+                parent,
+            };
+            nodes.push(node);
+            x += width;
+
+            if (depth > 0) {
+                let recursive = false;
+                for (
+                    let ancestor: FlameNode | null = parent;
+                    ancestor;
+                    ancestor = ancestor.parent
+                ) {
+                    if (ancestor.name === node.name) {
+                        recursive = true;
+                        break;
+                    }
+                }
+                visit(node, recursive);
+            }
+        }
+
+        parents = nodes;
+    });
+}
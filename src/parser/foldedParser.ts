@@ -0,0 +1,94 @@
+import { ParsedProfile } from './pprofParser';
+import { ProfileBuilder, SourceFrame } from './profileBuilder';
+
+// "root;caller;leaf 123": frames separated by semicolons, then the sample count
+const FOLDED_LINE = /^(.*\S)\s+(\d+(?:\.\d+)?)$/;
+
+// Frame type suffixes added by async-profiler and stackcollapse-perf, e.g. "_[j]" for JIT code
+const FRAME_TYPE_SUFFIX = /_\[[a-z0-9]\]$/;
+
+// py-spy: "process (app/worker.py:42)" or "process (app/worker.py)"
+const PARENTHESIZED_LOCATION = /^(.*?)\s*\(([^()]+?)(?::(\d+))?\)$/;
+
+// "app/worker.py:42", "process app/worker.py:42" or async-profiler --lines "Worker.process:42"
+const TRAILING_LINE = /^(?:(.*?)\s+)?(\S+?):(\d+)$/;
+
+const SOURCE_EXTENSIONS =
+    /\.(py|go|js|mjs|cjs|ts|tsx|jsx|rb|java|kt|scala|c|cc|cpp|cxx|h|hpp|rs|php|cs|swift)$/i;
+
+/**
+ * Check whether a line is a collapsed stack (Brendan Gregg's folded format)
+ */
+export function isFoldedLine(line: string): boolean {
+    return FOLDED_LINE.test(line.trim());
+}
+
+/**
+ * Parses collapsed stacks as written by async-profiler, stackcollapse-perf.pl and
+ * py-spy --format raw into a single "samples" profile. Frames carry a source
+ * location only when the tool annotated them with file:line.
+ */
+export function parseFoldedStacks(text: string): ParsedProfile {
+    const builder = new ProfileBuilder([{ type: 'samples', unit: 'count' }]);
+
+    text.split(/\r?\n/).forEach((rawLine) => {
+        const line = rawLine.trim();
+        if (line === '' || line.startsWith('#')) {
+            return;
+        }
+
+        const match = FOLDED_LINE.exec(line);
+        if (!match) {
+            return;
+        }
+
+        const count = Number(match[2]);
+        const frames = match[1].split(';').filter((frame) => frame !== '');
+        if (count === 0 || frames.length === 0) {
+            return;
+        }
+
+        // Folded stacks list the root first, pprof the leaf first
+        const locationIds = frames.map((frame) => builder.addFrame(parseFrame(frame))).reverse();
+        builder.addSample(locationIds, [count]);
+    });
+
+    if (builder.getSampleCount() === 0) {
+        throw new Error('Failed to parse profile: no collapsed stacks found');
+    }
+
+    return builder.build();
+}
+
+function parseFrame(frame: string): SourceFrame {
+    const name = frame.trim().replace(FRAME_TYPE_SUFFIX, '');
+
+    const parenthesized = PARENTHESIZED_LOCATION.exec(name);
+    if (parenthesized && isSourceFile(parenthesized[2])) {
+        return {
+            name: parenthesized[1] || parenthesized[2],
+            filename: parenthesized[2],
+            line: Number(parenthesized[3] || 0),
+        };
+    }
+
+    const trailing = TRAILING_LINE.exec(name);
+    if (trailing) {
+        const [, prefix, location, line] = trailing;
+        if (isSourceFile(location)) {
+            return {
+                name: prefix || `${location}:${line}`,
+                filename: location,
+                line: Number(line),
+            };
+        }
+        // A function name with a line but no file can't be placed in the workspace
+        return { name: prefix ? `${prefix} ${location}` : location, filename: '', line: 0 };
+    }
+
+    return { name, filename: '', line: 0 };
+}
+
+function isSourceFile(location: string): boolean {
+    return SOURCE_EXTENSIONS.test(location);
+}
@@ -0,0 +1,73 @@
+import { ParsedProfile, SampleLabel } from './pprofParser';
+
+/**
+ * Allowed values per label key. A sample matches when, for every key, it has
+ * one of the listed values.
+ */
+export type SampleLabelFilter = Record<string, string[]>;
+
+/**
+ * Format a label value for display and matching, e.g. "/api/orders" or "512 bytes"
+ */
+export function formatSampleLabelValue(label: SampleLabel): string {
+    if (label.str !== undefined) {
+        return label.str;
+    }
+    return label.numUnit ? `${label.num} ${label.numUnit}` : String(label.num);
+}
+
+/**
+ * Count the samples carrying each label value
+ * @returns Sample counts by label key, then value
+ */
+export function collectSampleLabels(profile: ParsedProfile): Map<string, Map<string, number>> {
+    const labels = new Map<string, Map<string, number>>();
+    profile.samples.forEach((sample) => {
+        sample.labels?.forEach((label) => {
+            let values = labels.get(label.key);
+            if (!values) {
+                values = new Map();
+                labels.set(label.key, values);
+            }
+            const value = formatSampleLabelValue(label);
+            values.set(value, (values.get(value) || 0) + 1);
+        });
+    });
+    return labels;
+}
+
+/**
+ * Keep only the samples matching a label filter. Locations, functions and the
+ * string table are shared with the original profile.
+ */
+export function filterProfileByLabels(
+    profile: ParsedProfile,
+    filter: SampleLabelFilter
+): ParsedProfile {
+    const keys = Object.keys(filter).filter((key) => filter[key].length > 0);
+    if (keys.length === 0) {
+        return profile;
+    }
+
+    return {
+        ...profile,
+        samples: profile.samples.filter((sample) =>
+            keys.every((key) =>
+                (sample.labels || []).some(
+                    (label) =>
+                        label.key === key && filter[key].includes(formatSampleLabelValue(label))
+                )
+            )
+        ),
+    };
+}
+
+/**
+ * Describe a filter for the status bar, e.g. "http_route=/api/orders|/api/users"
+ */
+export function describeLabelFilter(filter: SampleLabelFilter): string {
+    return Object.entries(filter)
+        .filter(([, values]) => values.length > 0)
+        .map(([key, values]) => `${key}=${values.join('|')}`)
+        .join(', ');
+}
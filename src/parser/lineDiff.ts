@@ -0,0 +1,94 @@
+/**
+ * A changed region of a unified diff: oldCount lines at oldStart became newCount lines
+ * at newStart. With a count of 0, the start is the line after which lines were inserted
+ * or removed.
+ */
+export interface DiffHunk {
+    oldStart: number;
+    oldCount: number;
+    newStart: number;
+    newCount: number;
+}
+
+/**
+ * Where a line of the old revision is in the new one
+ */
+export interface MappedLine {
+    line: number; // For a removed line, the line now in its place
+    removed: boolean;
+}
+
+// "@@ -12,3 +14,0 @@": counts default to 1 when omitted
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+// Old side of a file that did not exist at the old revision
+const NEW_FILE_HEADER = /^--- \/dev\/null$/m;
+
+/**
+ * Parse the hunk headers of a unified diff of a single file. A file that did not exist
+ * at the old revision gets one hunk replacing every old line, since "@@ -0,0 +1,N @@"
+ * alone would read as lines inserted at the top.
+ */
+export function parseDiffHunks(diff: string): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
+    diff.split('\n').forEach((line) => {
+        const match = HUNK_HEADER.exec(line);
+        if (match) {
+            hunks.push({
+                oldStart: Number(match[1]),
+                oldCount: match[2] === undefined ? 1 : Number(match[2]),
+                newStart: Number(match[3]),
+                newCount: match[4] === undefined ? 1 : Number(match[4]),
+            });
+        }
+    });
+    if (NEW_FILE_HEADER.test(diff)) {
+        const newCount = hunks.reduce((count, hunk) => count + hunk.newCount, 0);
+        return [{ oldStart: 1, oldCount: Number.MAX_SAFE_INTEGER, newStart: 1, newCount }];
+    }
+    return hunks.sort((a, b) => a.oldStart - b.oldStart);
+}
+
+/**
+ * Map a 1-based line of the old revision through the hunks of a diff. Lines inside a
+ * changed region count as removed, since the code that was profiled is gone.
+ */
+export function mapLine(hunks: DiffHunk[], line: number): MappedLine {
+    let offset = 0;
+    for (const hunk of hunks) {
+        if (hunk.oldCount === 0) {
+            // Pure insertion after oldStart
+            if (hunk.oldStart >= line) {
+                break;
+            }
+            offset += hunk.newCount;
+            continue;
+        }
+
+        if (line < hunk.oldStart) {
+            break;
+        }
+        if (line < hunk.oldStart + hunk.oldCount) {
+            return {
+                line: hunk.newCount > 0 ? hunk.newStart : hunk.newStart + 1,
+                removed: true,
+            };
+        }
+        offset += hunk.newCount - hunk.oldCount;
+    }
+    return { line: line + offset, removed: false };
+}
+
+/**
+ * Map a 1-based line of the new revision back to the old one, e.g. to look up a working
+ * copy line in a profile. Lines added since have no counterpart; they count as removed.
+ */
+export function mapLineBack(hunks: DiffHunk[], line: number): MappedLine {
+    const reversed = hunks.map((hunk) => ({
+        oldStart: hunk.newStart,
+        oldCount: hunk.newCount,
+        newStart: hunk.oldStart,
+        newCount: hunk.oldCount,
+    }));
+    return mapLine(reversed, line);
+}
@@ -19,6 +19,18 @@ export interface SampleType {
 export interface ProfileSample {
     locationIds: number[];
     values: number[];
+    labels?: SampleLabel[];
+}
+
+/**
+ * A pprof sample label: a string value (Go pprof labels, Pyroscope tags) or a
+ * number with an optional unit
+ */
+export interface SampleLabel {
+    key: string;
+    str?: string;
+    num?: number;
+    numUnit?: string;
 }
 
 export interface ProfileLocation {
@@ -39,16 +51,22 @@ export interface ProfileFunction {
     startLine: number;
 }
 
+/**
+ * Load the perftools.profiles.Profile message type from the bundled proto definition
+ */
+export async function loadProfileType(): Promise<protobuf.Type> {
+    const protoPath = path.join(__dirname, '../../proto/profile.proto');
+    const root = await protobuf.load(protoPath);
+    return root.lookupType('perftools.profiles.Profile');
+}
+
 /**
  * Parses a pprof protobuf buffer and returns structured profile data
  */
 export async function parseProfile(buffer: Buffer): Promise<ParsedProfile> {
     try {
-        // Load the protobuf definition
-        const protoPath = path.join(__dirname, '../../proto/profile.proto');
-        const root = await protobuf.load(protoPath);
         // eslint-disable-next-line @typescript-eslint/naming-convention
-        const Profile = root.lookupType('perftools.profiles.Profile');
+        const Profile = await loadProfileType();
 
         // Decode the protobuf message
         const message = Profile.decode(buffer);
@@ -98,10 +116,24 @@ export async function parseProfile(buffer: Buffer): Promise<ParsedProfile> {
         });
 
         // Parse samples
-        const samples: ProfileSample[] = (profile.sample || []).map((sample: any) => ({
-            locationIds: sample.locationId || [],
-            values: sample.value || [],
-        }));
+        const samples: ProfileSample[] = (profile.sample || []).map((sample: any) => {
+            const parsed: ProfileSample = {
+                locationIds: sample.locationId || [],
+                values: sample.value || [],
+            };
+            if (sample.label && sample.label.length > 0) {
+                parsed.labels = sample.label.map((label: any) =>
+                    label.str
+                        ? { key: getString(label.key), str: getString(label.str) }
+                        : {
+                              key: getString(label.key),
+                              num: label.num,
+                              numUnit: getString(label.numUnit) || undefined,
+                          }
+                );
+            }
+            return parsed;
+        });
 
         return {
             sampleTypes,
@@ -0,0 +1,82 @@
+import * as pako from 'pako';
+import { ParsedProfile, SampleType, loadProfileType } from './pprofParser';
+
+// pprof values are integers; coarser time units are written as nanoseconds to keep precision
+const NANOSECOND_SCALE: Record<string, number> = {
+    seconds: 1e9,
+    milliseconds: 1e6,
+    microseconds: 1e3,
+};
+
+/**
+ * Serializes a profile back into a gzipped perftools.profiles.Profile, readable by
+ * `go tool pprof`, Pyroscope and any other pprof consumer
+ */
+export async function encodeProfile(profile: ParsedProfile): Promise<Uint8Array> {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    const Profile = await loadProfileType();
+
+    // Keep the original string table so indices survive a round trip, and append
+    // any strings that are missing from it (profiles built from other formats)
+    const stringTable = profile.stringTable.length > 0 ? [...profile.stringTable] : [''];
+    if (stringTable[0] !== '') {
+        stringTable.unshift('');
+    }
+    const stringIds = new Map<string, number>();
+    stringTable.forEach((str, index) => {
+        if (!stringIds.has(str)) {
+            stringIds.set(str, index);
+        }
+    });
+    const intern = (str: string | undefined): number => {
+        if (!str) {
+            return 0;
+        }
+        let id = stringIds.get(str);
+        if (id === undefined) {
+            id = stringTable.length;
+            stringTable.push(str);
+            stringIds.set(str, id);
+        }
+        return id;
+    };
+
+    const scales = profile.sampleTypes.map((st) => NANOSECOND_SCALE[st.unit] || 1);
+    const sampleTypes: SampleType[] = profile.sampleTypes.map((st) => ({
+        type: st.type,
+        unit: NANOSECOND_SCALE[st.unit] ? 'nanoseconds' : st.unit,
+    }));
+
+    const message = Profile.fromObject({
+        sampleType: sampleTypes.map((st) => ({ type: intern(st.type), unit: intern(st.unit) })),
+        sample: profile.samples.map((sample) => ({
+            locationId: sample.locationIds,
+            value: sample.values.map((value, i) => Math.round(value * (scales[i] || 1))),
+            label: (sample.labels || []).map((label) => ({
+                key: intern(label.key),
+                str: intern(label.str),
+                num: label.num || 0,
+                numUnit: intern(label.numUnit),
+            })),
+        })),
+        location: Array.from(profile.locations.values()).map((location) => ({
+            id: location.id,
+            line: location.lines.map((line) => ({
+                functionId: line.functionId,
+                line: line.line,
+            })),
+        })),
+        function: Array.from(profile.functions.values()).map((fn) => ({
+            id: fn.id,
+            name: intern(fn.name),
+            systemName: intern(fn.systemName),
+            filename: intern(fn.filename),
+            startLine: fn.startLine,
+        })),
+        stringTable,
+        timeNanos: Math.round(profile.timeNanos),
+        durationNanos: Math.round(profile.durationNanos),
+    });
+
+    return pako.gzip(Profile.encode(message).finish());
+}
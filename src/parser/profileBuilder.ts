@@ -0,0 +1,104 @@
+import {
+    ParsedProfile,
+    ProfileFunction,
+    ProfileLocation,
+    ProfileSample,
+    SampleType,
+} from './pprofParser';
+
+/**
+ * A stack frame as read from a non-pprof profile format
+ */
+export interface SourceFrame {
+    name: string;
+    filename: string; // Empty when the format gives no source file
+    line: number; // 0 when unknown
+}
+
+/**
+ * Builds a ParsedProfile from stacks of frames, giving each distinct function and
+ * frame position a pprof function and location, and interning the strings
+ * the way a pprof string table does.
+ */
+export class ProfileBuilder {
+    private stringTable: string[] = [''];
+    private stringIds: Map<string, number> = new Map([['', 0]]);
+    private functions: Map<number, ProfileFunction> = new Map();
+    private functionIds: Map<string, number> = new Map();
+    private locations: Map<number, ProfileLocation> = new Map();
+    private locationIds: Map<string, number> = new Map();
+    private samples: ProfileSample[] = [];
+
+    constructor(private sampleTypes: SampleType[]) {
+        sampleTypes.forEach((st) => {
+            this.intern(st.type);
+            this.intern(st.unit);
+        });
+    }
+
+    /**
+     * Get the location ID of a frame, adding its function and location on first use
+     */
+    public addFrame(frame: SourceFrame): number {
+        const functionKey = `${frame.name}\0${frame.filename}`;
+        let functionId = this.functionIds.get(functionKey);
+        if (functionId === undefined) {
+            functionId = this.functions.size + 1;
+            this.intern(frame.name);
+            this.intern(frame.filename);
+            this.functions.set(functionId, {
+                id: functionId,
+                name: frame.name,
+                systemName: frame.name,
+                filename: frame.filename,
+                startLine: 0,
+            });
+            this.functionIds.set(functionKey, functionId);
+        }
+
+        const locationKey = `${functionId}:${frame.line}`;
+        let locationId = this.locationIds.get(locationKey);
+        if (locationId === undefined) {
+            locationId = this.locations.size + 1;
+            this.locations.set(locationId, {
+                id: locationId,
+                lines: [{ functionId, line: frame.line }],
+            });
+            this.locationIds.set(locationKey, locationId);
+        }
+
+        return locationId;
+    }
+
+    /**
+     * Add a sample
+     * @param locationIds - From addFrame, leaf first as in pprof
+     * @param values - One per sample type
+     */
+    public addSample(locationIds: number[], values: number[]): void {
+        this.samples.push({ locationIds, values });
+    }
+
+    public getSampleCount(): number {
+        return this.samples.length;
+    }
+
+    public build(timeNanos: number = 0, durationNanos: number = 0): ParsedProfile {
+        return {
+            sampleTypes: this.sampleTypes,
+            samples: this.samples,
+            locations: this.locations,
+            functions: this.functions,
+            stringTable: this.stringTable,
+            timeNanos,
+            durationNanos,
+        };
+    }
+
+    private intern(value: string): void {
+        if (!this.stringIds.has(value)) {
+            this.stringIds.set(value, this.stringTable.length);
+            this.stringTable.push(value);
+        }
+    }
+}
@@ -0,0 +1,66 @@
+import { ParsedProfile, parseProfile } from './pprofParser';
+import { isFoldedLine, parseFoldedStacks } from './foldedParser';
+import { isCpuProfile, parseCpuProfile } from './cpuprofileParser';
+import { isSpeedscopeProfile, parseSpeedscope } from './speedscopeParser';
+
+export type ProfileFormat = 'pprof' | 'folded' | 'cpuprofile' | 'speedscope';
+
+/**
+ * A profile read from a file; files in some formats hold several, e.g. one per thread
+ */
+export interface FileProfile {
+    name?: string; // Set when the file holds several profiles
+    profile: ParsedProfile;
+}
+
+// Enough to hold the first stack of a deep collapsed profile
+const DETECTION_BYTES = 1024 * 1024;
+
+/**
+ * Detect the format of decompressed profile data from its content rather than the file name
+ */
+export function detectProfileFormat(data: Buffer): ProfileFormat {
+    let head = data.subarray(0, DETECTION_BYTES).toString('utf8');
+    if (data.length > DETECTION_BYTES) {
+        // Drop the last line, it may be cut off mid-character
+        head = head.slice(0, head.lastIndexOf('\n') + 1);
+    }
+
+    // Protobuf is binary; text formats never contain NUL or invalid UTF-8
+    if (head.includes('\u0000') || head.includes('\ufffd')) {
+        return 'pprof';
+    }
+
+    if (isSpeedscopeProfile(head)) {
+        return 'speedscope';
+    } else if (isCpuProfile(head)) {
+        return 'cpuprofile';
+    }
+
+    const firstLine = head
+        .split(/\r?\n/)
+        .find((line) => line.trim() !== '' && !line.startsWith('#'));
+    if (firstLine && isFoldedLine(firstLine)) {
+        return 'folded';
+    }
+
+    return 'pprof';
+}
+
+/**
+ * Parse decompressed profile data in any supported format
+ */
+export async function parseProfileData(
+    data: Buffer,
+    format: ProfileFormat = detectProfileFormat(data)
+): Promise<FileProfile[]> {
+    if (format === 'folded') {
+        return [{ profile: parseFoldedStacks(data.toString('utf8')) }];
+    } else if (format === 'cpuprofile') {
+        return [{ profile: parseCpuProfile(data.toString('utf8')) }];
+    } else if (format === 'speedscope') {
+        const profiles = parseSpeedscope(data.toString('utf8'));
+        return profiles.length === 1 ? [{ profile: profiles[0].profile }] : profiles;
+    }
+    return [{ profile: await parseProfile(data) }];
+}
@@ -1,26 +1,111 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { ParsedProfile, getSampleTypeIndex } from './pprofParser';
+import { ParsedProfile } from './pprofParser';
+import { MappedLine } from './lineDiff';
 import { PathResolver } from '../utils/pathResolver';
 import { getLogger, shouldLogDebug } from '../utils/logger';
 
+/**
+ * Self and cumulative value of one sample type on a line
+ */
+export interface SampleValue {
+    unit: string; // e.g. "nanoseconds", "bytes", "count"
+    self: number; // Samples where the line is the leaf frame
+    total: number; // Cumulative: the line and everything it calls
+    selfPercent: number;
+    percent: number; // Cumulative percentage of the sample type's profile total
+}
+
 export interface LineMetrics {
     filePath: string;
     line: number;
-    cpuPercent: number;
-    cpuSamples: number;
-    cpuNanoseconds: number; // Absolute CPU time in nanoseconds
-    selfCpuNanoseconds: number; // Self CPU time in nanoseconds
-    memoryBytes: number;
-    memoryPercent: number;
-    allocations: number;
-    selfCpuPercent: number;
-    selfMemoryPercent: number;
+    functionName?: string; // Function the line belongs to, when the profile names it
+    values: Record<string, SampleValue>; // By sample type (e.g. "cpu", "alloc_space", "delay"), in profile order
+    delta?: LineDelta; // Change relative to the pinned baseline session
+    originalLine?: number; // Line in the profiled revision, when remapped to the working copy
+}
+
+export interface LineDelta {
+    percent: number; // Change in cumulative percentage points
+    value: number; // Change in absolute value, in the profile's unit
 }
 
 export type FileMetrics = Map<number, LineMetrics>;
 export type ProfileMetrics = Map<string, FileMetrics>;
 
+/**
+ * Get the value of a sample type on a line. Falls back to the last sample type,
+ * the pprof default, when the line has no value under that name.
+ */
+export function getSampleValue(metrics: LineMetrics, sampleType: string): SampleValue {
+    const value = metrics.values[sampleType];
+    if (value) {
+        return value;
+    }
+
+    const types = Object.keys(metrics.values);
+    return types.length > 0
+        ? metrics.values[types[types.length - 1]]
+        : { unit: '', self: 0, total: 0, selfPercent: 0, percent: 0 };
+}
+
+/**
+ * Create an empty metrics record for a line
+ */
+export function createEmptyLineMetrics(filePath: string, line: number): LineMetrics {
+    return {
+        filePath,
+        line,
+        values: {},
+    };
+}
+
+/**
+ * Narrow metrics mapped from a multi-type profile to one sample type, dropping
+ * lines without samples of that type
+ */
+export function selectSampleType(metrics: ProfileMetrics, sampleType: string): ProfileMetrics {
+    const selected: ProfileMetrics = new Map();
+    metrics.forEach((fileMetrics, filePath) => {
+        const lines: FileMetrics = new Map();
+        fileMetrics.forEach((lineMetrics, line) => {
+            const value = getSampleValue(lineMetrics, sampleType);
+            if (value.total > 0) {
+                lines.set(line, { ...lineMetrics, values: { [sampleType]: value } });
+            }
+        });
+        if (lines.size > 0) {
+            selected.set(filePath, lines);
+        }
+    });
+    return selected;
+}
+
+/**
+ * Move a file's line metrics to where their lines are in the working copy
+ * @param mapLine - Maps a line of the profiled revision, e.g. through a git diff
+ * @returns Metrics of lines that still exist, and of removed lines keyed at the line now
+ * in their place
+ */
+export function remapFileMetrics(
+    fileMetrics: FileMetrics,
+    mapLine: (line: number) => MappedLine
+): { metrics: FileMetrics; removed: LineMetrics[] } {
+    const metrics: FileMetrics = new Map();
+    const removed: LineMetrics[] = [];
+    fileMetrics.forEach((lineMetrics, line) => {
+        const mapped = mapLine(line);
+        if (mapped.removed) {
+            removed.push({ ...lineMetrics, line: mapped.line, originalLine: line });
+        } else if (mapped.line === line) {
+            metrics.set(line, lineMetrics);
+        } else {
+            metrics.set(mapped.line, { ...lineMetrics, line: mapped.line, originalLine: line });
+        }
+    });
+    return { metrics, removed };
+}
+
 /**
  * Maps profile samples to source code locations and calculates metrics per line
  * This function yields to the event loop periodically to keep the UI responsive
@@ -40,30 +125,6 @@ export async function mapSamplesToSource(
         });
     }
 
-    // Find sample type indices
-    const cpuIndex = findSampleTypeIndex(profile, ['cpu', 'samples', 'sample']);
-    const allocSpaceIndex = findSampleTypeIndex(profile, ['alloc_space', 'allocated', 'bytes']);
-    const allocObjectsIndex = findSampleTypeIndex(profile, [
-        'alloc_objects',
-        'allocations',
-        'count',
-    ]);
-    const inuseSpaceIndex = findSampleTypeIndex(profile, ['inuse_space', 'inuse']);
-
-    logger.info(
-        `Sample type indices: cpu=${cpuIndex}, allocSpace=${allocSpaceIndex}, allocObjects=${allocObjectsIndex}, inuseSpace=${inuseSpaceIndex}`
-    );
-
-    // Warn if we couldn't find any sample types
-    if (cpuIndex === -1 && allocSpaceIndex === -1 && inuseSpaceIndex === -1) {
-        logger.warn(
-            '⚠️  Could not find any recognized sample types in profile! Metrics may be incorrect.'
-        );
-        logger.warn(
-            'This usually means the profile type is not supported or the sample type names do not match.'
-        );
-    }
-
     // Log unique paths from profile
     const uniquePaths = new Set<string>();
     profile.samples.forEach((sample) => {
@@ -80,23 +141,21 @@ export async function mapSamplesToSource(
         uniquePaths.forEach((p) => logger.debug(`  ${p}`));
     }
 
-    // Calculate totals for percentage calculations
-    let totalCpu = 0;
-    let totalMemory = 0;
+    // Resolve each unique path once so the per-frame lookups below are cache hits
+    await pathResolver.preWarmCache(Array.from(uniquePaths));
 
+    // Totals per sample type for percentage calculations
+    const totals = profile.sampleTypes.map(() => 0);
     profile.samples.forEach((sample) => {
-        if (cpuIndex !== -1 && sample.values[cpuIndex]) {
-            totalCpu += sample.values[cpuIndex];
-        }
-        if (allocSpaceIndex !== -1 && sample.values[allocSpaceIndex]) {
-            totalMemory += sample.values[allocSpaceIndex];
-        } else if (inuseSpaceIndex !== -1 && sample.values[inuseSpaceIndex]) {
-            totalMemory += sample.values[inuseSpaceIndex];
-        }
+        totals.forEach((_, index) => {
+            totals[index] += sample.values[index] || 0;
+        });
     });
 
     logger.info(
-        `Processing ${profile.samples.length} samples: totalCpu=${totalCpu}, totalMemory=${totalMemory}`
+        `Processing ${profile.samples.length} samples: ${profile.sampleTypes
+            .map((st, index) => `${st.type}=${totals[index]}`)
+            .join(', ')}`
     );
 
     // Process each sample
@@ -136,19 +195,18 @@ export async function mapSamplesToSource(
             // Get or create line metrics
             let lineMetrics = fileMetrics.get(frame.line);
             if (!lineMetrics) {
-                lineMetrics = {
-                    filePath: resolvedPath,
-                    line: frame.line,
-                    cpuPercent: 0,
-                    cpuSamples: 0,
-                    cpuNanoseconds: 0,
-                    selfCpuNanoseconds: 0,
-                    memoryBytes: 0,
-                    memoryPercent: 0,
-                    allocations: 0,
-                    selfCpuPercent: 0,
-                    selfMemoryPercent: 0,
-                };
+                lineMetrics = createEmptyLineMetrics(resolvedPath, frame.line);
+                lineMetrics.functionName = frame.functionName || undefined;
+                const { values } = lineMetrics;
+                profile.sampleTypes.forEach((st) => {
+                    values[st.type] = {
+                        unit: st.unit,
+                        self: 0,
+                        total: 0,
+                        selfPercent: 0,
+                        percent: 0,
+                    };
+                });
                 fileMetrics.set(frame.line, lineMetrics);
             }
 
@@ -156,51 +214,33 @@ export async function mapSamplesToSource(
             // locationIndex 0 = leaf (self time), 1+ = callers (cumulative only)
             const isSelfFrame = frame.locationIndex === 0;
 
-            if (cpuIndex !== -1 && sample.values[cpuIndex]) {
-                const cpuValue = sample.values[cpuIndex];
-                lineMetrics.cpuSamples += cpuValue;
-                lineMetrics.cpuNanoseconds += cpuValue; // For CPU profiles, value is in nanoseconds
-                if (isSelfFrame) {
-                    lineMetrics.selfCpuPercent += cpuValue;
-                    lineMetrics.selfCpuNanoseconds += cpuValue;
-                }
-            }
-
-            if (allocSpaceIndex !== -1 && sample.values[allocSpaceIndex]) {
-                const memValue = sample.values[allocSpaceIndex];
-                lineMetrics.memoryBytes += memValue;
+            const { values } = lineMetrics;
+            profile.sampleTypes.forEach((st, index) => {
+                const value = sample.values[index] || 0;
+                const sampleValue = values[st.type];
+                sampleValue.total += value;
                 if (isSelfFrame) {
-                    lineMetrics.selfMemoryPercent += memValue;
+                    sampleValue.self += value;
                 }
-            } else if (inuseSpaceIndex !== -1 && sample.values[inuseSpaceIndex]) {
-                const memValue = sample.values[inuseSpaceIndex];
-                lineMetrics.memoryBytes += memValue;
-                if (isSelfFrame) {
-                    lineMetrics.selfMemoryPercent += memValue;
-                }
-            }
-
-            if (allocObjectsIndex !== -1 && sample.values[allocObjectsIndex]) {
-                lineMetrics.allocations += sample.values[allocObjectsIndex];
-            }
+            });
         });
     }
 
     // Calculate percentages
     metricsMap.forEach((fileMetrics) => {
         fileMetrics.forEach((lineMetrics) => {
-            if (totalCpu > 0) {
-                lineMetrics.cpuPercent = (lineMetrics.cpuSamples / totalCpu) * 100;
-                lineMetrics.selfCpuPercent = (lineMetrics.selfCpuPercent / totalCpu) * 100;
-            }
-            if (totalMemory > 0) {
-                lineMetrics.memoryPercent = (lineMetrics.memoryBytes / totalMemory) * 100;
-                lineMetrics.selfMemoryPercent = (lineMetrics.selfMemoryPercent / totalMemory) * 100;
-            }
+            profile.sampleTypes.forEach((st, index) => {
+                const sampleValue = lineMetrics.values[st.type];
+                if (totals[index] > 0) {
+                    sampleValue.percent = (sampleValue.total / totals[index]) * 100;
+                    sampleValue.selfPercent = (sampleValue.self / totals[index]) * 100;
+                }
+            });
         });
     });
 
     logger.info(`Mapped metrics to ${metricsMap.size} files`);
+    pathResolver.logCacheStats();
 
     if (shouldLogDebug()) {
         logger.debug('Matched files:');
@@ -247,16 +287,3 @@ function getStackTrace(sample: any, profile: ParsedProfile): StackFrame[] {
 
     return frames;
 }
-
-/**
- * Finds the index of a sample type by trying multiple possible names
- */
-function findSampleTypeIndex(profile: ParsedProfile, possibleNames: string[]): number {
-    for (const name of possibleNames) {
-        const index = getSampleTypeIndex(profile, name);
-        if (index !== -1) {
-            return index;
-        }
-    }
-    return -1;
-}
@@ -0,0 +1,129 @@
+import { ParsedProfile } from './pprofParser';
+import { ProfileBuilder } from './profileBuilder';
+
+interface SpeedscopeFrame {
+    name: string;
+    file?: string;
+    line?: number; // 1-based
+    col?: number;
+}
+
+interface SpeedscopeEvent {
+    type: 'O' | 'C'; // Open or close a frame
+    at: number;
+    frame: number;
+}
+
+interface SpeedscopeProfile {
+    type: 'evented' | 'sampled';
+    name?: string;
+    unit: string; // none, nanoseconds, microseconds, milliseconds, seconds or bytes
+    startValue: number;
+    endValue: number;
+    events?: SpeedscopeEvent[]; // Evented profiles
+    samples?: number[][]; // Sampled profiles: frame indices, root first
+    weights?: number[];
+}
+
+interface SpeedscopeFile {
+    shared: { frames: SpeedscopeFrame[] };
+    profiles: SpeedscopeProfile[];
+}
+
+const SPEEDSCOPE_SCHEMA = 'https://www.speedscope.app/file-format-schema.json';
+
+/**
+ * Check whether JSON text looks like a speedscope file
+ */
+export function isSpeedscopeProfile(head: string): boolean {
+    return head.trimStart().startsWith('{') && head.includes(SPEEDSCOPE_SCHEMA);
+}
+
+/**
+ * Parses a speedscope file, as exported by py-spy, rbspy and others, into one profile per
+ * profile in the file (typically one per thread)
+ * @returns Profiles with the names given in the file, in file order
+ */
+export function parseSpeedscope(text: string): { name: string; profile: ParsedProfile }[] {
+    let file: SpeedscopeFile;
+    try {
+        file = JSON.parse(text);
+    } catch (error) {
+        const errMsg = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to parse profile: ${errMsg}`);
+    }
+    if (!file.shared || !Array.isArray(file.shared.frames) || !Array.isArray(file.profiles)) {
+        throw new Error('Failed to parse profile: not a speedscope file');
+    }
+
+    const profiles = file.profiles
+        .map((profile, index) => ({
+            name: profile.name || `Profile ${index + 1}`,
+            profile: convertProfile(profile, file.shared.frames),
+        }))
+        .filter(({ profile }) => profile.samples.length > 0);
+
+    if (profiles.length === 0) {
+        throw new Error('Failed to parse profile: the speedscope file has no samples');
+    }
+    return profiles;
+}
+
+function convertProfile(profile: SpeedscopeProfile, frames: SpeedscopeFrame[]): ParsedProfile {
+    const unit = profile.unit === 'none' ? 'count' : profile.unit;
+    const builder = new ProfileBuilder([
+        { type: unit === 'bytes' ? 'space' : unit === 'count' ? 'samples' : 'time', unit },
+    ]);
+
+    // Identical stacks become one sample with the summed weight
+    const weights = new Map<string, { stack: number[]; weight: number }>();
+    const addWeight = (stack: number[], weight: number) => {
+        if (stack.length === 0 || weight <= 0) {
+            return;
+        }
+        const key = stack.join(';');
+        const entry = weights.get(key);
+        if (entry) {
+            entry.weight += weight;
+        } else {
+            weights.set(key, { stack: [...stack], weight });
+        }
+    };
+
+    if (profile.type === 'sampled') {
+        (profile.samples || []).forEach((stack, i) => addWeight(stack, profile.weights?.[i] ?? 1));
+    } else {
+        // Weigh the open stack by the time until the next event
+        const stack: number[] = [];
+        let last = profile.startValue;
+        (profile.events || []).forEach((event) => {
+            addWeight(stack, event.at - last);
+            last = event.at;
+            if (event.type === 'O') {
+                stack.push(event.frame);
+            } else {
+                const index = stack.lastIndexOf(event.frame);
+                if (index !== -1) {
+                    stack.splice(index, 1);
+                }
+            }
+        });
+    }
+
+    weights.forEach(({ stack, weight }) => {
+        // Speedscope lists the root first, pprof the leaf first
+        const locationIds = stack
+            .map((index) => {
+                const frame = frames[index];
+                return builder.addFrame({
+                    name: frame?.name || '(unknown)',
+                    filename: frame?.file || '',
+                    line: frame?.line || 0,
+                });
+            })
+            .reverse();
+        builder.addSample(locationIds, [weight]);
+    });
+
+    return builder.build();
+}
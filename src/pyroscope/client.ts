@@ -3,6 +3,8 @@ import { createAuthenticatedClient } from './auth';
 import { getLogger, shouldLogDebug } from '../utils/logger';
 import * as protobuf from 'protobufjs';
 import * as path from 'path';
+import { FlameGraph, FlameGraphDiff } from '../parser/flameGraph';
+import { LabelMatcher, buildLabelSelector } from './labelSelector';
 
 export interface ProfileType {
     id: string;
@@ -13,6 +15,70 @@ export interface ProfileType {
     periodUnit: string;
 }
 
+// Full IDs of common profile types, by short name
+const PROFILE_TYPE_SHORTHANDS: Record<string, string> = {
+    cpu: 'process_cpu:cpu:nanoseconds:cpu:nanoseconds',
+    process_cpu: 'process_cpu:cpu:nanoseconds:cpu:nanoseconds',
+    memory: 'memory:alloc_space:bytes:space:bytes',
+    alloc_space: 'memory:alloc_space:bytes:space:bytes',
+    alloc_objects: 'memory:alloc_objects:count:space:bytes',
+    inuse_space: 'memory:inuse_space:bytes:space:bytes',
+    inuse_objects: 'memory:inuse_objects:count:space:bytes',
+    goroutine: 'goroutine:goroutine:count:goroutine:count',
+    block: 'block:contentions:count:contentions:count',
+    mutex: 'mutex:contentions:count:contentions:count',
+};
+
+/**
+ * Expand a short profile type name such as "cpu" to its full ID, or check a full ID has
+ * all five parts
+ * @returns The full ID, or null if the name is unknown or the ID incomplete
+ */
+export function expandProfileTypeId(profileType: string): string | null {
+    if (!profileType.includes(':')) {
+        return PROFILE_TYPE_SHORTHANDS[profileType] || null;
+    }
+    const parts = profileType.split(':');
+    return parts.length === 5 && parts.every((part) => part.length > 0) ? profileType : null;
+}
+
+/**
+ * List the short profile type names expandProfileTypeId accepts
+ */
+export function getProfileTypeShorthands(): string[] {
+    return Object.keys(PROFILE_TYPE_SHORTHANDS);
+}
+
+/**
+ * Split a profile type ID (name:sample_type:sample_unit:period_type:period_unit) into its parts
+ */
+export function parseProfileTypeId(id: string): ProfileType {
+    const [name = '', sampleType = '', sampleUnit = '', periodType = '', periodUnit = ''] =
+        id.split(':');
+    return { id, name, sampleType, sampleUnit, periodType, periodUnit };
+}
+
+export interface SeriesPoint {
+    timestamp: number; // Milliseconds since epoch
+    value: number;
+}
+
+export interface Series {
+    labels: Record<string, string>;
+    points: SeriesPoint[];
+}
+
+export interface SeriesOptions {
+    /** Resolution in seconds; defaults to ~100 points over the range */
+    step?: number;
+    /** Label names to split the series by */
+    groupBy?: string[];
+    /** Only count stack traces with this prefix (function names, root first) */
+    callSite?: string[];
+    /** Additional label matchers to filter by */
+    labelMatchers?: LabelMatcher[];
+}
+
 export class PyroscopeClient {
     private client: AxiosInstance;
     private logger: ReturnType<typeof getLogger>;
@@ -27,9 +93,15 @@ export class PyroscopeClient {
     /**
      * Get label values from Pyroscope
      * @param labelName - The label name to query (e.g., "service_name", "deployment_environment")
+     * @param matchers - Optional label selectors restricting which series the values come from
+     * @param range - Optional time range in seconds (unix timestamps) the series must have data in
      * @returns Array of label values
      */
-    async getLabelValues(labelName: string): Promise<string[]> {
+    async getLabelValues(
+        labelName: string,
+        matchers: string[] = [],
+        range?: { startTime: number; endTime: number }
+    ): Promise<string[]> {
         // Strip /pyroscope suffix if present - gRPC endpoints are at root
         const baseUrl = this.client.defaults.baseURL || '';
         const grpcBaseUrl = baseUrl.replace(/\/pyroscope\/?$/, '');
@@ -44,6 +116,11 @@ export class PyroscopeClient {
                 url,
                 {
                     name: labelName,
+                    matchers,
+                    ...(range && {
+                        start: range.startTime * 1000, // Convert to milliseconds
+                        end: range.endTime * 1000,
+                    }),
                 },
                 {
                     baseURL: grpcBaseUrl,
@@ -94,23 +171,81 @@ export class PyroscopeClient {
         return this.getLabelValues('deployment_environment');
     }
 
+    /**
+     * Get label names from Pyroscope
+     * @param matchers - Optional label selectors restricting which series the names come from
+     * @param range - Optional time range in seconds (unix timestamps) the series must have data in
+     * @returns Array of label names, excluding internal labels such as __name__
+     */
+    async getLabelNames(
+        matchers: string[] = [],
+        range?: { startTime: number; endTime: number }
+    ): Promise<string[]> {
+        const url = '/querier.v1.QuerierService/LabelNames';
+        if (shouldLogDebug()) {
+            this.logger.debug(
+                `POST ${this.getGrpcBaseUrl()}${url} (matchers: ${matchers.join(' ')})`
+            );
+        }
+
+        try {
+            const response = await this.client.post(
+                url,
+                {
+                    matchers,
+                    ...(range && {
+                        start: range.startTime * 1000, // Convert to milliseconds
+                        end: range.endTime * 1000,
+                    }),
+                },
+                { baseURL: this.getGrpcBaseUrl() }
+            );
+
+            // Response format: {"names": ["name1", "name2", ...]}
+            if (response.data && Array.isArray(response.data.names)) {
+                const names = (response.data.names as string[]).filter(
+                    (name) => !name.startsWith('__')
+                );
+                this.logger.info(`Found ${names.length} label names`);
+                return names;
+            }
+
+            this.logger.warn('Unexpected response format from LabelNames');
+            return [];
+        } catch (error: any) {
+            this.logger.error(`POST ${url} failed: ${error.message}`);
+
+            if (error.response) {
+                this.logger.error(`  Status: ${error.response.status}`);
+                throw new Error(
+                    `Pyroscope API error: ${error.response.status} ${error.response.statusText}`
+                );
+            } else if (error.request) {
+                throw new Error('Failed to connect to Pyroscope server');
+            } else {
+                throw new Error(`Request error: ${error.message}`);
+            }
+        }
+    }
+
     /**
      * Fetch a profile from Pyroscope using the gRPC-gateway endpoint
      * @param appName - Service name to query
-     * @param durationSeconds - Time range in seconds (from now back)
+     * @param startTime - Start time in seconds (unix timestamp)
+     * @param endTime - End time in seconds (unix timestamp)
      * @param profileType - Type of profile (process_cpu, memory, etc.)
      * @param environment - Optional deployment environment to filter by
+     * @param labelMatchers - Additional label matchers to filter by
      */
     async fetchProfile(
         appName: string,
-        durationSeconds: number = 3600,
+        startTime: number,
+        endTime: number,
         profileType: string = 'process_cpu',
-        environment?: string
+        environment?: string,
+        labelMatchers: LabelMatcher[] = []
     ): Promise<Buffer> {
         try {
-            const now = Math.floor(Date.now() / 1000);
-            const from = now - durationSeconds;
-
             // Get the profile type ID
             const profileTypeId = this.getProfileTypeId(profileType);
 
@@ -122,36 +257,17 @@ export class PyroscopeClient {
             if (shouldLogDebug()) {
                 this.logger.debug(`POST ${grpcBaseUrl}${url}`);
                 this.logger.debug(
-                    `Request: service_name="${appName}", profile=${profileTypeId}, range=${from}-${now}`
+                    `Request: service_name="${appName}", profile=${profileTypeId}, range=${startTime}-${endTime}`
                 );
             }
 
             // Load the protobuf definition for SelectMergeProfileRequest
-            const protoRoot = path.join(__dirname, '../../proto');
-
-            // Create a custom Root with resolvePath to handle imports correctly
-            const root = new protobuf.Root();
-            root.resolvePath = (_origin: string, target: string) => {
-                // If target is already an absolute path, return as-is
-                if (path.isAbsolute(target)) {
-                    return target;
-                }
-                // Otherwise, resolve imports relative to the proto root directory
-                return path.join(protoRoot, target);
-            };
-
-            // Use relative path from proto root for the initial load
-            await root.load('querier/v1/querier.proto', { keepCase: true });
+            const root = await this.loadQuerierProto();
             const selectMergeProfileRequest = root.lookupType(
                 'querier.v1.SelectMergeProfileRequest'
             );
 
-            // Build label selector with service_name and optional environment
-            let labelSelector = `{service_name="${appName}"`;
-            if (environment) {
-                labelSelector += `,deployment_environment="${environment}"`;
-            }
-            labelSelector += '}';
+            const labelSelector = buildLabelSelector(appName, environment, labelMatchers);
 
             if (shouldLogDebug()) {
                 this.logger.debug(`Label selector: ${labelSelector}`);
@@ -162,8 +278,8 @@ export class PyroscopeClient {
             const requestMessage = selectMergeProfileRequest.create({
                 profile_typeID: profileTypeId,
                 label_selector: labelSelector,
-                start: from * 1000, // Convert to milliseconds
-                end: now * 1000,
+                start: startTime * 1000, // Convert to milliseconds
+                end: endTime * 1000,
                 max_nodes: 8192, // Sufficient for detailed profiles
             });
 
@@ -214,25 +330,399 @@ export class PyroscopeClient {
         }
     }
 
+    /**
+     * Fetch a merged flame graph from Pyroscope via SelectMergeStacktraces
+     * @param appName - Service name to query
+     * @param startTime - Start time in seconds (unix timestamp)
+     * @param endTime - End time in seconds (unix timestamp)
+     * @param profileType - Type of profile (process_cpu, memory, etc.)
+     * @param environment - Optional deployment environment to filter by
+     * @param labelMatchers - Additional label matchers to filter by
+     */
+    async fetchFlameGraph(
+        appName: string,
+        startTime: number,
+        endTime: number,
+        profileType: string = 'process_cpu',
+        environment?: string,
+        labelMatchers: LabelMatcher[] = []
+    ): Promise<FlameGraph> {
+        const url = '/querier.v1.QuerierService/SelectMergeStacktraces';
+
+        try {
+            const profileTypeId = this.getProfileTypeId(profileType);
+            const labelSelector = buildLabelSelector(appName, environment, labelMatchers);
+
+            if (shouldLogDebug()) {
+                this.logger.debug(`POST ${this.getGrpcBaseUrl()}${url}`);
+                this.logger.debug(
+                    `Request: ${labelSelector}, profile=${profileTypeId}, range=${startTime}-${endTime}`
+                );
+            }
+
+            const root = await this.loadQuerierProto();
+            const requestType = root.lookupType('querier.v1.SelectMergeStacktracesRequest');
+            const responseType = root.lookupType('querier.v1.SelectMergeStacktracesResponse');
+
+            const requestMessage = requestType.create({
+                profile_typeID: profileTypeId,
+                label_selector: labelSelector,
+                start: startTime * 1000, // Convert to milliseconds
+                end: endTime * 1000,
+                max_nodes: 8192,
+                format: 1, // PROFILE_FORMAT_FLAMEGRAPH
+            });
+            const requestBuffer = requestType.encode(requestMessage).finish();
+
+            const response = await this.client.post(url, Buffer.from(requestBuffer), {
+                baseURL: this.getGrpcBaseUrl(),
+                responseType: 'arraybuffer',
+                headers: {
+                    'Content-Type': 'application/proto',
+                },
+            });
+
+            if (shouldLogDebug()) {
+                this.logger.debug(`Response: ${response.status}, ${response.data.length} bytes`);
+            }
+
+            const responseMessage = responseType.decode(new Uint8Array(response.data));
+            const responseObj = responseType.toObject(responseMessage, {
+                longs: Number,
+                defaults: true,
+            });
+
+            return this.toFlameGraph(responseObj.flamegraph);
+        } catch (error: any) {
+            this.logger.error(`POST ${url} failed: ${error.message}`);
+
+            if (error.response) {
+                this.logger.error(`  Status: ${error.response.status}`);
+                throw new Error(`Failed to fetch flame graph: ${error.response.status}`);
+            } else if (error.request) {
+                throw new Error('Failed to connect to Pyroscope server');
+            } else {
+                throw new Error(`Request error: ${error.message}`);
+            }
+        }
+    }
+
+    /**
+     * Fetch a flame graph of only the samples recorded within the given trace spans
+     * via SelectMergeSpanProfile
+     * @param appName - Service name to query
+     * @param startTime - Start time in seconds (unix timestamp)
+     * @param endTime - End time in seconds (unix timestamp)
+     * @param profileType - Type of profile (process_cpu, memory, etc.)
+     * @param spanIds - OpenTelemetry span IDs (hex)
+     * @param environment - Optional deployment environment to filter by
+     * @param labelMatchers - Additional label matchers to filter by
+     */
+    async fetchSpanProfile(
+        appName: string,
+        startTime: number,
+        endTime: number,
+        profileType: string,
+        spanIds: string[],
+        environment?: string,
+        labelMatchers: LabelMatcher[] = []
+    ): Promise<FlameGraph> {
+        const url = '/querier.v1.QuerierService/SelectMergeSpanProfile';
+
+        try {
+            const profileTypeId = this.getProfileTypeId(profileType);
+            const labelSelector = buildLabelSelector(appName, environment, labelMatchers);
+
+            if (shouldLogDebug()) {
+                this.logger.debug(`POST ${this.getGrpcBaseUrl()}${url}`);
+                this.logger.debug(
+                    `Request: ${labelSelector}, profile=${profileTypeId}, range=${startTime}-${endTime}, spans=${spanIds.join(',')}`
+                );
+            }
+
+            const root = await this.loadQuerierProto();
+            const requestType = root.lookupType('querier.v1.SelectMergeSpanProfileRequest');
+            const responseType = root.lookupType('querier.v1.SelectMergeSpanProfileResponse');
+
+            const requestMessage = requestType.create({
+                profile_typeID: profileTypeId,
+                label_selector: labelSelector,
+                span_selector: spanIds,
+                start: startTime * 1000, // Convert to milliseconds
+                end: endTime * 1000,
+                max_nodes: 8192,
+                format: 1, // PROFILE_FORMAT_FLAMEGRAPH
+            });
+            const requestBuffer = requestType.encode(requestMessage).finish();
+
+            const response = await this.client.post(url, Buffer.from(requestBuffer), {
+                baseURL: this.getGrpcBaseUrl(),
+                responseType: 'arraybuffer',
+                headers: {
+                    'Content-Type': 'application/proto',
+                },
+            });
+
+            if (shouldLogDebug()) {
+                this.logger.debug(`Response: ${response.status}, ${response.data.length} bytes`);
+            }
+
+            const responseMessage = responseType.decode(new Uint8Array(response.data));
+            const responseObj = responseType.toObject(responseMessage, {
+                longs: Number,
+                defaults: true,
+            });
+
+            return this.toFlameGraph(responseObj.flamegraph);
+        } catch (error: any) {
+            this.logger.error(`POST ${url} failed: ${error.message}`);
+
+            if (error.response) {
+                this.logger.error(`  Status: ${error.response.status}`);
+                throw new Error(`Failed to fetch span profile: ${error.response.status}`);
+            } else if (error.request) {
+                throw new Error('Failed to connect to Pyroscope server');
+            } else {
+                throw new Error(`Request error: ${error.message}`);
+            }
+        }
+    }
+
+    /**
+     * Compare two time windows of the same query via the server-side Diff RPC
+     * @param appName - Service name to query
+     * @param left - "Before" window in seconds (unix timestamps)
+     * @param right - "After" window in seconds (unix timestamps)
+     * @param profileType - Type of profile (process_cpu, memory, etc.)
+     * @param environment - Optional deployment environment to filter by
+     * @param labelMatchers - Additional label matchers to filter by
+     */
+    async fetchDiff(
+        appName: string,
+        left: { startTime: number; endTime: number },
+        right: { startTime: number; endTime: number },
+        profileType: string = 'process_cpu',
+        environment?: string,
+        labelMatchers: LabelMatcher[] = []
+    ): Promise<FlameGraphDiff> {
+        const url = '/querier.v1.QuerierService/Diff';
+
+        try {
+            const profileTypeId = this.getProfileTypeId(profileType);
+            const labelSelector = buildLabelSelector(appName, environment, labelMatchers);
+
+            if (shouldLogDebug()) {
+                this.logger.debug(`POST ${this.getGrpcBaseUrl()}${url}`);
+                this.logger.debug(
+                    `Request: ${labelSelector}, profile=${profileTypeId}, left=${left.startTime}-${left.endTime}, right=${right.startTime}-${right.endTime}`
+                );
+            }
+
+            const root = await this.loadQuerierProto();
+            const requestType = root.lookupType('querier.v1.DiffRequest');
+            const responseType = root.lookupType('querier.v1.DiffResponse');
+
+            const toSelectRequest = (window: { startTime: number; endTime: number }) => ({
+                profile_typeID: profileTypeId,
+                label_selector: labelSelector,
+                start: window.startTime * 1000, // Convert to milliseconds
+                end: window.endTime * 1000,
+                max_nodes: 8192,
+            });
+
+            const requestMessage = requestType.create({
+                left: toSelectRequest(left),
+                right: toSelectRequest(right),
+            });
+            const requestBuffer = requestType.encode(requestMessage).finish();
+
+            const response = await this.client.post(url, Buffer.from(requestBuffer), {
+                baseURL: this.getGrpcBaseUrl(),
+                responseType: 'arraybuffer',
+                headers: {
+                    'Content-Type': 'application/proto',
+                },
+            });
+
+            if (shouldLogDebug()) {
+                this.logger.debug(`Response: ${response.status}, ${response.data.length} bytes`);
+            }
+
+            const responseMessage = responseType.decode(new Uint8Array(response.data));
+            const responseObj = responseType.toObject(responseMessage, {
+                longs: Number,
+                defaults: true,
+            });
+            const message = responseObj.flamegraph;
+
+            return {
+                ...this.toFlameGraph(message),
+                leftTicks: message?.leftTicks || 0,
+                rightTicks: message?.rightTicks || 0,
+            };
+        } catch (error: any) {
+            this.logger.error(`POST ${url} failed: ${error.message}`);
+
+            if (error.response) {
+                this.logger.error(`  Status: ${error.response.status}`);
+                throw new Error(`Failed to fetch diff: ${error.response.status}`);
+            } else if (error.request) {
+                throw new Error('Failed to connect to Pyroscope server');
+            } else {
+                throw new Error(`Request error: ${error.message}`);
+            }
+        }
+    }
+
+    /**
+     * Fetch the total of a profile type over time via SelectSeries
+     * @param appName - Service name to query
+     * @param startTime - Start time in seconds (unix timestamp)
+     * @param endTime - End time in seconds (unix timestamp)
+     * @param profileType - Type of profile (process_cpu, memory, etc.)
+     * @param environment - Optional deployment environment to filter by
+     * @param options - Step, grouping and call site filter
+     */
+    async fetchSeries(
+        appName: string,
+        startTime: number,
+        endTime: number,
+        profileType: string = 'process_cpu',
+        environment?: string,
+        options: SeriesOptions = {}
+    ): Promise<Series[]> {
+        const url = '/querier.v1.QuerierService/SelectSeries';
+
+        try {
+            const profileTypeId = this.getProfileTypeId(profileType);
+            const labelSelector = buildLabelSelector(appName, environment, options.labelMatchers);
+            const step = options.step || Math.max(15, Math.round((endTime - startTime) / 100));
+
+            if (shouldLogDebug()) {
+                this.logger.debug(`POST ${this.getGrpcBaseUrl()}${url}`);
+                this.logger.debug(
+                    `Request: ${labelSelector}, profile=${profileTypeId}, range=${startTime}-${endTime}, step=${step}s`
+                );
+                if (options.callSite) {
+                    this.logger.debug(`Call site: ${options.callSite.join(' > ')}`);
+                }
+            }
+
+            const root = await this.loadQuerierProto();
+            const requestType = root.lookupType('querier.v1.SelectSeriesRequest');
+            const responseType = root.lookupType('querier.v1.SelectSeriesResponse');
+
+            const requestMessage = requestType.create({
+                profile_typeID: profileTypeId,
+                label_selector: labelSelector,
+                start: startTime * 1000, // Convert to milliseconds
+                end: endTime * 1000,
+                group_by: options.groupBy || [],
+                step,
+                stack_trace_selector: options.callSite
+                    ? { call_site: options.callSite.map((name) => ({ name })) }
+                    : undefined,
+            });
+            const requestBuffer = requestType.encode(requestMessage).finish();
+
+            const response = await this.client.post(url, Buffer.from(requestBuffer), {
+                baseURL: this.getGrpcBaseUrl(),
+                responseType: 'arraybuffer',
+                headers: {
+                    'Content-Type': 'application/proto',
+                },
+            });
+
+            if (shouldLogDebug()) {
+                this.logger.debug(`Response: ${response.status}, ${response.data.length} bytes`);
+            }
+
+            const responseMessage = responseType.decode(new Uint8Array(response.data));
+            const responseObj = responseType.toObject(responseMessage, {
+                longs: Number,
+                defaults: true,
+            });
+
+            return (responseObj.series || []).map((series: any) => ({
+                labels: Object.fromEntries(
+                    (series.labels || []).map((label: any) => [label.name, label.value])
+                ),
+                points: (series.points || []).map((point: any) => ({
+                    timestamp: point.timestamp,
+                    value: point.value,
+                })),
+            }));
+        } catch (error: any) {
+            this.logger.error(`POST ${url} failed: ${error.message}`);
+
+            if (error.response) {
+                this.logger.error(`  Status: ${error.response.status}`);
+                throw new Error(`Failed to fetch series: ${error.response.status}`);
+            } else if (error.request) {
+                throw new Error('Failed to connect to Pyroscope server');
+            } else {
+                throw new Error(`Request error: ${error.message}`);
+            }
+        }
+    }
+
+    /**
+     * Convert a decoded querier.v1.FlameGraph message into a FlameGraph
+     */
+    private toFlameGraph(message: any): FlameGraph {
+        if (!message) {
+            return { names: [], levels: [], total: 0, maxSelf: 0 };
+        }
+
+        return {
+            names: message.names || [],
+            levels: (message.levels || []).map((level: any) => level.values || []),
+            total: message.total || 0,
+            maxSelf: message.max_self || 0,
+        };
+    }
+
+    /**
+     * Strip /pyroscope suffix if present - gRPC endpoints are at root
+     */
+    private getGrpcBaseUrl(): string {
+        const baseUrl = this.client.defaults.baseURL || '';
+        return baseUrl.replace(/\/pyroscope\/?$/, '');
+    }
+
+    /**
+     * Load the querier protobuf definitions with imports resolved against the proto directory
+     */
+    private async loadQuerierProto(): Promise<protobuf.Root> {
+        const protoRoot = path.join(__dirname, '../../proto');
+
+        // Create a custom Root with resolvePath to handle imports correctly
+        const root = new protobuf.Root();
+        root.resolvePath = (_origin: string, target: string) => {
+            // If target is already an absolute path, return as-is
+            if (path.isAbsolute(target)) {
+                return target;
+            }
+            // Otherwise, resolve imports relative to the proto root directory
+            return path.join(protoRoot, target);
+        };
+
+        // Use relative path from proto root for the initial load
+        await root.load('querier/v1/querier.proto', { keepCase: true });
+        return root;
+    }
+
     /**
      * Map profile type shorthand to full profile type ID
      */
     private getProfileTypeId(profileType: string): string {
-        // Map common profile types to their full IDs
-        const typeMap: Record<string, string> = {
-            cpu: 'process_cpu:cpu:nanoseconds:cpu:nanoseconds',
-            process_cpu: 'process_cpu:cpu:nanoseconds:cpu:nanoseconds',
-            memory: 'memory:alloc_space:bytes:space:bytes',
-            alloc_space: 'memory:alloc_space:bytes:space:bytes',
-            alloc_objects: 'memory:alloc_objects:count:space:bytes',
-            inuse_space: 'memory:inuse_space:bytes:space:bytes',
-            inuse_objects: 'memory:inuse_objects:count:space:bytes',
-            goroutine: 'goroutine:goroutine:count:goroutine:count',
-            block: 'block:contentions:count:contentions:count',
-            mutex: 'mutex:contentions:count:contentions:count',
-        };
+        // Already a full profile type ID (e.g. from ProfileTypes)
+        if (profileType.includes(':')) {
+            return profileType;
+        }
 
-        return typeMap[profileType] || typeMap['cpu'];
+        // Map common profile types to their full IDs
+        return PROFILE_TYPE_SHORTHANDS[profileType] || PROFILE_TYPE_SHORTHANDS['cpu'];
     }
 
     /**
@@ -254,16 +744,7 @@ export class PyroscopeClient {
             }
 
             // Load protobuf definition
-            const protoRoot = path.join(__dirname, '../../proto');
-            const root = new protobuf.Root();
-            root.resolvePath = (_origin: string, target: string) => {
-                if (path.isAbsolute(target)) {
-                    return target;
-                }
-                return path.join(protoRoot, target);
-            };
-
-            await root.load('querier/v1/querier.proto', { keepCase: true });
+            const root = await this.loadQuerierProto();
             const requestType = root.lookupType('querier.v1.ProfileTypesRequest');
             const responseType = root.lookupType('querier.v1.ProfileTypesResponse');
 
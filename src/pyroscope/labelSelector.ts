@@ -0,0 +1,124 @@
+export type MatchOperator = '=' | '!=' | '=~' | '!~';
+
+export const MATCH_OPERATORS: { operator: MatchOperator; description: string }[] = [
+    { operator: '=', description: 'equals' },
+    { operator: '!=', description: 'does not equal' },
+    { operator: '=~', description: 'matches regex' },
+    { operator: '!~', description: 'does not match regex' },
+];
+
+/**
+ * A single label matcher of a Prometheus-style selector, e.g. region=~"eu-.*"
+ */
+export interface LabelMatcher {
+    name: string;
+    operator: MatchOperator;
+    value: string;
+}
+
+const MATCHER_PATTERN = /^\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*(=~|!~|!=|=)\s*"((?:[^"\\]|\\.)*)"\s*/;
+
+/**
+ * Format a matcher as selector syntax, quoting and escaping the value
+ */
+export function formatLabelMatcher(matcher: LabelMatcher): string {
+    const value = matcher.value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+    return `${matcher.name}${matcher.operator}"${value}"`;
+}
+
+/**
+ * Format matchers as a label selector, e.g. {service_name="api",region!="us"}
+ */
+export function formatLabelSelector(matchers: LabelMatcher[]): string {
+    return `{${matchers.map(formatLabelMatcher).join(',')}}`;
+}
+
+/**
+ * Build the selector for a service, optional environment and additional matchers
+ */
+export function buildLabelSelector(
+    appName: string,
+    environment?: string,
+    matchers: LabelMatcher[] = []
+): string {
+    const all: LabelMatcher[] = [{ name: 'service_name', operator: '=', value: appName }];
+    if (environment) {
+        all.push({ name: 'deployment_environment', operator: '=', value: environment });
+    }
+    return formatLabelSelector([...all, ...matchers]);
+}
+
+/**
+ * Parse a label selector; the surrounding braces are optional
+ * @throws Error describing the first syntax error or invalid regex
+ */
+export function parseLabelSelector(input: string): LabelMatcher[] {
+    let rest = input.trim();
+    if (rest.startsWith('{')) {
+        if (!rest.endsWith('}')) {
+            throw new Error('Missing closing "}"');
+        }
+        rest = rest.slice(1, -1);
+    }
+
+    const matchers: LabelMatcher[] = [];
+    while (rest.trim().length > 0) {
+        const match = MATCHER_PATTERN.exec(rest);
+        if (!match) {
+            throw new Error(`Expected label="value" at: ${rest.trim()}`);
+        }
+
+        const matcher: LabelMatcher = {
+            name: match[1],
+            operator: match[2] as MatchOperator,
+            // Other backslash sequences are kept as written, e.g. \d in a regex
+            value: match[3].replace(/\\([\\"])/g, '$1'),
+        };
+
+        const regexError = validateMatcherValue(matcher);
+        if (regexError) {
+            throw new Error(regexError);
+        }
+        matchers.push(matcher);
+
+        rest = rest.slice(match[0].length);
+        if (rest.length > 0) {
+            if (!rest.startsWith(',')) {
+                throw new Error(`Expected "," at: ${rest.trim()}`);
+            }
+            rest = rest.slice(1);
+        }
+    }
+
+    return matchers;
+}
+
+/**
+ * Validate a selector for an input box
+ * @returns An error message, or null if the selector is valid
+ */
+export function validateLabelSelector(input: string): string | null {
+    try {
+        parseLabelSelector(input);
+        return null;
+    } catch (error: any) {
+        return error.message;
+    }
+}
+
+/**
+ * Check that the value of a regex matcher compiles
+ * @returns An error message, or null if the value is valid
+ */
+export function validateMatcherValue(matcher: LabelMatcher): string | null {
+    if (matcher.operator !== '=~' && matcher.operator !== '!~') {
+        return null;
+    }
+
+    try {
+        new RegExp(`^(?:${matcher.value})$`);
+        return null;
+    } catch (error: any) {
+        return `Invalid regex for ${matcher.name}: ${error.message}`;
+    }
+}
@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import { TimeRangeSpec } from '../utils/timeRange';
+
+const LAST_FETCH_KEY = 'pyroscope.lastFetch';
+
+/**
+ * Everything needed to repeat a fetch from a Pyroscope server without prompting
+ */
+export interface FetchQuery {
+    serverUrl: string;
+    appName: string;
+    environment?: string;
+    labelSelector?: string; // Additional matchers, e.g. {region="eu-west-1"}
+    timeRange: TimeRangeSpec;
+    profileTypes: string[]; // Profile type IDs
+}
+
+/**
+ * A named fetch query, stored in the pyroscope.queryPresets setting
+ */
+export interface FetchPreset extends FetchQuery {
+    name: string;
+}
+
+/**
+ * Read presets from settings
+ */
+export function getFetchPresets(): FetchPreset[] {
+    const config = vscode.workspace.getConfiguration('pyroscope');
+    return config
+        .get<Partial<FetchPreset>[]>('queryPresets', [])
+        .map(normalizeFetchPreset)
+        .filter((preset): preset is FetchPreset => preset !== null);
+}
+
+/**
+ * Fill in defaults for hand-written presets (settings or keybinding arguments):
+ * the configured server, the last hour and the CPU profile
+ * @returns null if the service is missing
+ */
+export function normalizeFetchPreset(preset: Partial<FetchPreset>): FetchPreset | null {
+    if (!preset.appName) {
+        return null;
+    }
+
+    const config = vscode.workspace.getConfiguration('pyroscope');
+    return {
+        ...preset,
+        name: preset.name || preset.appName,
+        appName: preset.appName,
+        serverUrl: preset.serverUrl || config.get<string>('serverUrl', 'http://localhost:4040'),
+        timeRange: preset.timeRange || { from: 'now-1h', to: 'now' },
+        profileTypes:
+            preset.profileTypes && preset.profileTypes.length > 0
+                ? preset.profileTypes
+                : ['process_cpu:cpu:nanoseconds:cpu:nanoseconds'],
+    };
+}
+
+/**
+ * Find a preset by name
+ */
+export function findFetchPreset(name: string): FetchPreset | undefined {
+    return getFetchPresets().find((preset) => preset.name === name);
+}
+
+/**
+ * Add a preset to settings, replacing any preset with the same name.
+ * Saved to workspace settings when a folder is open, user settings otherwise.
+ */
+export async function saveFetchPreset(preset: FetchPreset): Promise<void> {
+    const config = vscode.workspace.getConfiguration('pyroscope');
+    const target = vscode.workspace.workspaceFolders
+        ? vscode.ConfigurationTarget.Workspace
+        : vscode.ConfigurationTarget.Global;
+
+    // Only the target's own list: the effective value may come from another scope
+    const inspected = config.inspect<Partial<FetchPreset>[]>('queryPresets');
+    const presets = (
+        (target === vscode.ConfigurationTarget.Workspace
+            ? inspected?.workspaceValue
+            : inspected?.globalValue) || []
+    ).filter((existing) => existing.name !== preset.name);
+
+    await config.update('queryPresets', [...presets, preset], target);
+}
+
+export function getLastFetch(workspaceState: vscode.Memento): FetchQuery | undefined {
+    return workspaceState.get<FetchQuery>(LAST_FETCH_KEY);
+}
+
+export function setLastFetch(workspaceState: vscode.Memento, query: FetchQuery): Thenable<void> {
+    return workspaceState.update(LAST_FETCH_KEY, query);
+}
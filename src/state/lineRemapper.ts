@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import { ProfileStore } from './profileStore';
+import { parseDiffHunks } from '../parser/lineDiff';
+import { diffWorkingFile } from '../utils/git';
+import { getLogger, shouldLogDebug } from '../utils/logger';
+
+/**
+ * Keeps line mappings of the files open in editors up to date while the loaded session
+ * is tied to a git revision, diffing each file against the revision when it is shown
+ * and again whenever it is saved
+ */
+export class LineRemapper implements vscode.Disposable {
+    private pending: Map<string, Promise<void>> = new Map();
+    private revision: string | undefined;
+    private subscriptions: vscode.Disposable[];
+
+    constructor(private profileStore: ProfileStore) {
+        this.subscriptions = [
+            profileStore.onProfileChanged(() => {
+                const revision = profileStore.getProfileInfo()?.revision;
+                if (revision !== this.revision) {
+                    this.revision = revision;
+                    profileStore.clearLineMappings();
+                }
+                this.updateVisibleEditors();
+            }),
+            vscode.window.onDidChangeVisibleTextEditors(() => this.updateVisibleEditors()),
+            vscode.workspace.onDidSaveTextDocument((document) => {
+                if (this.revision) {
+                    profileStore.clearLineMappings(document.uri.fsPath);
+                    this.updateVisibleEditors();
+                }
+            }),
+        ];
+    }
+
+    /**
+     * Remap every file with metrics, not only those shown, e.g. before exporting their lines
+     */
+    public async remapAllFiles(): Promise<void> {
+        if (!this.revision) {
+            return;
+        }
+
+        const filePaths = new Set(
+            this.profileStore
+                .getLoadedProfileNames()
+                .flatMap((name) =>
+                    Array.from(this.profileStore.getProfileEntry(name)?.metrics.keys() || [])
+                )
+        );
+        // One git process at a time
+        for (const filePath of filePaths) {
+            await this.updateFile(filePath);
+        }
+    }
+
+    public dispose(): void {
+        this.subscriptions.forEach((subscription) => subscription.dispose());
+    }
+
+    private updateVisibleEditors(): void {
+        if (!this.revision) {
+            return;
+        }
+
+        vscode.window.visibleTextEditors
+            .filter((editor) => editor.document.uri.scheme === 'file')
+            .forEach((editor) => this.updateFile(editor.document.uri.fsPath));
+    }
+
+    private updateFile(filePath: string): Promise<void> {
+        const revision = this.revision;
+        const key = `${revision}\0${filePath}`;
+        const inFlight = this.pending.get(key);
+        if (inFlight) {
+            return inFlight;
+        }
+        if (!revision || !this.profileStore.isLineMappingPending(filePath)) {
+            return Promise.resolve();
+        }
+
+        const update = diffWorkingFile(filePath, revision)
+            .then((diff) => {
+                const hunks = parseDiffHunks(diff);
+                if (shouldLogDebug()) {
+                    getLogger().debug(
+                        `${filePath}: ${hunks.length} changed regions since ${revision}`
+                    );
+                }
+                return hunks;
+            })
+            .catch((error) => {
+                const errMsg = error instanceof Error ? error.message : String(error);
+                getLogger().warn(`Lines of ${filePath} not remapped to ${revision}: ${errMsg}`);
+                return null;
+            })
+            .then((hunks) => {
+                // The session may have been tied to another revision in the meantime
+                if (revision === this.revision) {
+                    this.profileStore.setLineMapping(filePath, { revision, hunks });
+                }
+            })
+            .finally(() => this.pending.delete(key));
+        this.pending.set(key, update);
+        return update;
+    }
+}
@@ -0,0 +1,248 @@
+import * as vscode from 'vscode';
+import { ProfileStore, ProfileEntry, ProfileInfo, SessionQuery } from './profileStore';
+import { PyroscopeClient, parseProfileTypeId } from '../pyroscope/client';
+import { fetchProfileEntry } from '../commands/fetchFromPyroscope';
+import { getLogger } from '../utils/logger';
+import { PathResolver } from '../utils/pathResolver';
+
+const MIN_INTERVAL_SECONDS = 10;
+const MAX_BACKOFF_SECONDS = 600;
+
+/**
+ * Keeps the loaded session up to date by re-running its query on an interval, sliding
+ * the time window forward to the present.
+ *
+ * Refreshes never overlap: the next one is scheduled only after the previous one
+ * finished, profile types are fetched one after another, and the interval doubles
+ * after each failed refresh so an unreachable server is not hammered.
+ */
+export class LiveSession implements vscode.Disposable {
+    private session: ProfileInfo | null = null;
+    private timer: NodeJS.Timeout | undefined;
+    private paused = false;
+    private refreshing = false;
+    private applying = false; // Set while a refresh replaces the session's entries
+    private failures = 0;
+    private lastRefresh: Date | null = null;
+    private lastError: string | null = null;
+    private changeEmitter = new vscode.EventEmitter<void>();
+    private subscription: vscode.Disposable;
+
+    public readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private profileStore: ProfileStore) {
+        // Loading or clearing another session ends live mode
+        this.subscription = profileStore.onProfileChanged(() => {
+            const info = profileStore.getProfileInfo();
+            if (!this.session || this.applying || info === this.session) {
+                return;
+            }
+
+            // Tying the session to a git revision does not change what is fetched
+            if (info && info.id === this.session.id && info.revision !== this.session.revision) {
+                this.session = info;
+                return;
+            }
+
+            getLogger().info('Live mode stopped: session changed');
+            this.stop();
+        });
+    }
+
+    /**
+     * Check whether a session can be refreshed: it must have been fetched from a server
+     * and not be a span profile or a server-side comparison
+     */
+    public static canRefresh(info: ProfileInfo | null): boolean {
+        return !!info?.query && !info.query.spanSelector && !info.comparisonLabel;
+    }
+
+    /**
+     * Start refreshing the currently loaded session
+     * @returns false if the session cannot be refreshed
+     */
+    public start(): boolean {
+        const info = this.profileStore.getProfileInfo();
+        if (!LiveSession.canRefresh(info)) {
+            return false;
+        }
+
+        this.session = info;
+        this.paused = false;
+        this.failures = 0;
+        this.lastRefresh = null;
+        this.lastError = null;
+        getLogger().info(`Live mode started: ${info!.name} every ${this.getInterval()}s`);
+        this.schedule(0);
+        this.changeEmitter.fire();
+        return true;
+    }
+
+    public pause(): void {
+        if (!this.session || this.paused) {
+            return;
+        }
+        this.paused = true;
+        this.cancelTimer();
+        getLogger().info('Live mode paused');
+        this.changeEmitter.fire();
+    }
+
+    public resume(): void {
+        if (!this.session || !this.paused) {
+            return;
+        }
+        this.paused = false;
+        this.failures = 0;
+        getLogger().info('Live mode resumed');
+        this.schedule(0);
+        this.changeEmitter.fire();
+    }
+
+    public stop(): void {
+        if (!this.session) {
+            return;
+        }
+        this.session = null;
+        this.paused = false;
+        this.cancelTimer();
+        this.changeEmitter.fire();
+    }
+
+    public isActive(): boolean {
+        return this.session !== null;
+    }
+
+    public isPaused(): boolean {
+        return this.paused;
+    }
+
+    public getLastRefresh(): Date | null {
+        return this.lastRefresh;
+    }
+
+    public getLastError(): string | null {
+        return this.lastError;
+    }
+
+    public dispose(): void {
+        this.cancelTimer();
+        this.subscription.dispose();
+        this.changeEmitter.dispose();
+    }
+
+    /**
+     * Refresh interval from settings, in seconds
+     */
+    private getInterval(): number {
+        const config = vscode.workspace.getConfiguration('pyroscope');
+        return Math.max(MIN_INTERVAL_SECONDS, config.get<number>('liveRefreshInterval', 30));
+    }
+
+    private schedule(delaySeconds: number): void {
+        this.cancelTimer();
+        this.timer = setTimeout(() => this.refresh(), delaySeconds * 1000);
+    }
+
+    private cancelTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private async refresh(): Promise<void> {
+        const session = this.session;
+        if (!session?.query || this.paused || this.refreshing) {
+            return;
+        }
+
+        const logger = getLogger();
+        const query = session.query;
+        const windowSeconds = query.endTime - query.startTime;
+        const to = Math.floor(Date.now() / 1000);
+        const from = to - windowSeconds;
+
+        this.refreshing = true;
+        try {
+            const config = vscode.workspace.getConfiguration('pyroscope');
+            const client = new PyroscopeClient(
+                query.serverUrl,
+                config.get<string>('authToken', '')
+            );
+            const pathResolver = new PathResolver(logger);
+            await pathResolver.initialize();
+
+            // One request at a time, so a live session costs the server no more than a fetch
+            const entries: ProfileEntry[] = [];
+            const errors: string[] = [];
+            for (const name of this.profileStore.getLoadedProfileNames()) {
+                const typeId = this.profileStore.getProfileEntry(name)?.typeId;
+                if (!typeId) {
+                    continue;
+                }
+                try {
+                    const entry = await fetchProfileEntry(
+                        client,
+                        pathResolver,
+                        parseProfileTypeId(typeId),
+                        query.appName,
+                        from,
+                        to,
+                        query.environment,
+                        query.labelMatchers
+                    );
+                    if (entry) {
+                        entries.push(entry);
+                    }
+                } catch (error: any) {
+                    logger.warn(`  ${name}: Live refresh failed - ${error.message}`);
+                    errors.push(error.message);
+                }
+            }
+
+            // Stopped or paused while the requests were in flight
+            if (!this.session || this.paused) {
+                return;
+            }
+            // Another session was loaded meanwhile; it must not receive these profiles
+            if (this.profileStore.getProfileInfo() !== this.session) {
+                logger.info('Live mode stopped: session changed');
+                this.stop();
+                return;
+            }
+
+            if (entries.length === 0 && errors.length > 0) {
+                throw new Error(errors[0]);
+            }
+
+            const refreshedQuery: SessionQuery = { ...query, startTime: from, endTime: to };
+            this.applying = true;
+            try {
+                this.profileStore.refreshProfiles(entries, refreshedQuery);
+            } finally {
+                this.applying = false;
+            }
+            this.session = this.profileStore.getProfileInfo();
+            this.lastRefresh = new Date();
+            this.lastError = null;
+            this.failures = 0;
+            logger.info(`Live refresh: ${entries.length} profiles updated`);
+        } catch (error) {
+            this.failures++;
+            this.lastError = error instanceof Error ? error.message : String(error);
+            logger.warn(`Live refresh failed (${this.failures} in a row): ${this.lastError}`);
+        } finally {
+            this.refreshing = false;
+        }
+
+        if (this.session && !this.paused) {
+            const backoff = Math.min(
+                this.getInterval() * 2 ** this.failures,
+                Math.max(MAX_BACKOFF_SECONDS, this.getInterval())
+            );
+            this.schedule(backoff);
+            this.changeEmitter.fire();
+        }
+    }
+}
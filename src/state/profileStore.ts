@@ -1,9 +1,38 @@
 import * as vscode from 'vscode';
-import { ProfileMetrics, FileMetrics } from '../parser/sourceMapper';
+import {
+    ProfileMetrics,
+    FileMetrics,
+    LineMetrics,
+    createEmptyLineMetrics,
+    getSampleValue,
+    remapFileMetrics,
+} from '../parser/sourceMapper';
+import { DiffHunk, mapLine, mapLineBack } from '../parser/lineDiff';
+import { ParsedProfile } from '../parser/pprofParser';
+import { FunctionLocation } from '../parser/flameGraphMapper';
+import { LabelMatcher } from '../pyroscope/labelSelector';
+import { SampleLabelFilter } from '../parser/labelFilter';
+
+/**
+ * Query parameters of a session fetched from a Pyroscope server
+ */
+export interface SessionQuery {
+    serverUrl: string;
+    appName: string;
+    environment?: string;
+    startTime: number; // Unix timestamp in seconds
+    endTime: number; // Unix timestamp in seconds
+    spanSelector?: string[]; // Span IDs the session is scoped to
+    labelMatchers?: LabelMatcher[]; // Label filters beyond service and environment
+}
 
 export interface ProfileInfo {
+    id: string; // Stays the same across live refreshes, used to persist the session
     name: string;
     timestamp: string;
+    query?: SessionQuery;
+    comparisonLabel?: string; // Describes what deltas are relative to, e.g. "vs before deploy"
+    revision?: string; // Git revision the profiled build was made from
 }
 
 export interface ProfileEntry {
@@ -12,60 +41,230 @@ export interface ProfileEntry {
     sampleType: string;
     unit: string;
     metrics: ProfileMetrics;
+    profile?: ParsedProfile; // Raw parsed profile the metrics were mapped from
+    isDiff?: boolean; // Metrics already carry deltas from a server-side diff
+    labelFilter?: SampleLabelFilter; // Sample label filter the metrics and profile were narrowed to
+    sourceProfile?: ParsedProfile; // Unfiltered profile when a label filter is applied
+    functionLocations?: Map<string, FunctionLocation>; // Source of each function, for entries mapped from a flame graph without samples of their own
+}
+
+/**
+ * How a file changed between the session's git revision and the working copy
+ */
+export interface LineMapping {
+    revision: string;
+    hunks: DiffHunk[] | null; // null when the file can't be diffed, e.g. it is untracked
+}
+
+/**
+ * A session pinned as the reference point for differential comparison
+ */
+export interface BaselineSession {
+    info: ProfileInfo;
+    entries: ProfileEntry[];
+}
+
+function createSessionId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
 }
 
 export class ProfileStore {
     private profiles: Map<string, ProfileEntry> = new Map();
     private profileInfo: ProfileInfo | null = null;
+    private sessionEntries: ProfileEntry[] = []; // Entries as loaded, without baseline deltas
+    private baseline: BaselineSession | null = null;
+    private lineMappings: Map<string, LineMapping> = new Map();
+    private remappedFiles: WeakMap<
+        FileMetrics,
+        { mapping: LineMapping; metrics: FileMetrics; removed: LineMetrics[] }
+    > = new WeakMap();
     private changeEmitter = new vscode.EventEmitter<void>();
+    private lineMappingEmitter = new vscode.EventEmitter<void>();
 
     public readonly onProfileChanged = this.changeEmitter.event;
+    public readonly onLineMappingChanged = this.lineMappingEmitter.event;
 
     /**
-     * Load new profile data (legacy method for backward compatibility)
+     * Load multiple profile entries
      */
-    public loadProfile(metrics: ProfileMetrics, name: string): void {
-        // Convert single profile to multi-profile format with "cpu" as default type
-        const entry: ProfileEntry = {
-            name: 'cpu',
-            typeId: 'process_cpu:cpu:nanoseconds:cpu:nanoseconds',
-            sampleType: 'cpu',
-            unit: 'nanoseconds',
-            metrics,
-        };
-        this.profiles.clear();
-        this.profiles.set('cpu', entry);
+    public loadProfiles(
+        entries: ProfileEntry[],
+        sessionName: string,
+        query?: SessionQuery,
+        comparisonLabel?: string
+    ): void {
         this.profileInfo = {
-            name,
+            id: createSessionId(),
+            name: sessionName,
             timestamp: new Date().toISOString(),
+            query,
+            comparisonLabel,
         };
+        this.setSessionEntries(entries);
         this.changeEmitter.fire();
     }
 
     /**
-     * Load multiple profile entries
+     * Replace the metrics of the current session with freshly fetched entries, keeping its
+     * name and display. Profile types missing from entries keep their previous metrics.
      */
-    public loadProfiles(entries: ProfileEntry[], sessionName: string): void {
-        this.profiles.clear();
-        entries.forEach((entry) => {
-            this.profiles.set(entry.name, entry);
-        });
+    public refreshProfiles(entries: ProfileEntry[], query: SessionQuery): void {
+        if (!this.profileInfo) {
+            return;
+        }
+
+        const refreshed = new Map(entries.map((entry) => [entry.name, entry]));
         this.profileInfo = {
-            name: sessionName,
+            ...this.profileInfo,
             timestamp: new Date().toISOString(),
+            query,
         };
+        this.setSessionEntries(
+            this.sessionEntries.map((entry) => refreshed.get(entry.name) || entry)
+        );
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Replace entries of the current session by name, e.g. after re-mapping them with a
+     * sample label filter. The session counts as changed, which ends live mode.
+     */
+    public updateEntries(entries: ProfileEntry[]): void {
+        if (!this.profileInfo) {
+            return;
+        }
+
+        const updated = new Map(entries.map((entry) => [entry.name, entry]));
+        this.profileInfo = { ...this.profileInfo };
+        this.setSessionEntries(
+            this.sessionEntries.map((entry) => updated.get(entry.name) || entry)
+        );
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Tie the current session to the git revision it was profiled at, so that lines are
+     * remapped to the working copy, or untie it
+     */
+    public setRevision(revision: string | undefined): void {
+        if (!this.profileInfo || this.profileInfo.revision === revision) {
+            return;
+        }
+
+        this.profileInfo = { ...this.profileInfo, revision };
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Record how a file differs from the session's revision
+     */
+    public setLineMapping(filePath: string, mapping: LineMapping): void {
+        this.lineMappings.set(filePath, mapping);
+        this.lineMappingEmitter.fire();
+    }
+
+    /**
+     * Check whether a file has metrics whose lines still have to be remapped before they
+     * can be shown
+     */
+    public isLineMappingPending(filePath: string): boolean {
+        const revision = this.profileInfo?.revision;
+        if (!revision || this.lineMappings.get(filePath)?.revision === revision) {
+            return false;
+        }
+        return Array.from(this.profiles.keys()).some(
+            (name) => this.findFileMetrics(name, filePath) !== null
+        );
+    }
+
+    /**
+     * Forget all line mappings, e.g. after the working copy changed on disk
+     */
+    public clearLineMappings(filePath?: string): void {
+        if (filePath) {
+            this.lineMappings.delete(filePath);
+        } else {
+            this.lineMappings.clear();
+        }
+    }
+
+    /**
+     * Load a previously persisted session as it was saved
+     */
+    public restoreSession(info: ProfileInfo, entries: ProfileEntry[]): void {
+        this.profileInfo = info;
+        this.setSessionEntries(entries);
         this.changeEmitter.fire();
     }
 
+    /**
+     * Get the entries of the current session as loaded, without baseline deltas
+     */
+    public getSessionEntries(): ProfileEntry[] {
+        return this.sessionEntries;
+    }
+
     /**
      * Clear all profile data
      */
     public clearProfile(): void {
-        this.profiles.clear();
         this.profileInfo = null;
+        this.setSessionEntries([]);
         this.changeEmitter.fire();
     }
 
+    /**
+     * Pin the current session as the baseline that later sessions are compared against
+     * @returns false if no session is loaded
+     */
+    public pinBaseline(): boolean {
+        if (!this.profileInfo || this.sessionEntries.length === 0) {
+            return false;
+        }
+
+        this.baseline = {
+            info: this.profileInfo,
+            entries: this.sessionEntries,
+        };
+        this.setSessionEntries(this.sessionEntries);
+        this.changeEmitter.fire();
+        return true;
+    }
+
+    /**
+     * Unpin the baseline session and drop all deltas
+     */
+    public clearBaseline(): void {
+        this.baseline = null;
+        this.setSessionEntries(this.sessionEntries);
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Get the pinned baseline session, if any
+     */
+    public getBaseline(): BaselineSession | null {
+        return this.baseline;
+    }
+
+    /**
+     * Describe what line deltas of the current session are relative to
+     */
+    public getComparisonLabel(): string {
+        return this.profileInfo?.comparisonLabel || 'vs baseline';
+    }
+
+    /**
+     * Check if the current session is being compared against a baseline
+     */
+    public isComparing(): boolean {
+        return (
+            this.baseline !== null &&
+            this.sessionEntries.length > 0 &&
+            this.baseline.entries !== this.sessionEntries
+        );
+    }
+
     /**
      * Get metrics for a specific file (backward compatible - uses first profile)
      * @deprecated Use getMetricsForProfile instead
@@ -94,27 +293,54 @@ export class ProfileStore {
     }
 
     /**
-     * Get metrics for a specific profile and file
+     * Get metrics for a specific profile and file, at working copy lines when the session
+     * is tied to a git revision
      */
     public getMetricsForProfile(profileName: string, filePath: string): FileMetrics | null {
-        const entry = this.profiles.get(profileName);
-        if (!entry) {
+        const fileMetrics = this.findFileMetrics(profileName, filePath);
+        if (!fileMetrics) {
             return null;
         }
+        return this.remapFile(filePath, fileMetrics)?.metrics || fileMetrics;
+    }
 
-        // Try exact match first
-        if (entry.metrics.has(filePath)) {
-            return entry.metrics.get(filePath)!;
+    /**
+     * Get metrics of profiled lines that no longer exist in the working copy, each at the
+     * line now in its place
+     */
+    public getRemovedLines(profileName: string, filePath: string): LineMetrics[] {
+        const fileMetrics = this.findFileMetrics(profileName, filePath);
+        return (fileMetrics && this.remapFile(filePath, fileMetrics)?.removed) || [];
+    }
+
+    /**
+     * Map a working copy line back to the profiled revision, where raw profile data has it
+     * @returns The line unchanged if the session has no revision or the file's diff is not
+     * known yet
+     */
+    public getProfiledLine(filePath: string, line: number): number {
+        const mapping = this.lineMappings.get(filePath);
+        if (!mapping?.hunks || mapping.revision !== this.profileInfo?.revision) {
+            return line;
         }
+        return mapLineBack(mapping.hunks, line).line;
+    }
 
-        // Try to find by normalized path comparison
-        for (const [profilePath, metrics] of entry.metrics.entries()) {
-            if (this.pathsMatch(profilePath, filePath)) {
-                return metrics;
-            }
+    /**
+     * Get metrics of all files of a profile, at working copy lines for files whose diff
+     * against the session's revision is known
+     */
+    public getEntryMetrics(profileName: string): ProfileMetrics {
+        const entry = this.profiles.get(profileName);
+        if (!entry) {
+            return new Map();
         }
 
-        return null;
+        const metrics: ProfileMetrics = new Map();
+        entry.metrics.forEach((fileMetrics, filePath) => {
+            metrics.set(filePath, this.remapFile(filePath, fileMetrics)?.metrics || fileMetrics);
+        });
+        return metrics;
     }
 
     /**
@@ -167,6 +393,199 @@ export class ProfileStore {
         return firstProfile.metrics;
     }
 
+    private findFileMetrics(profileName: string, filePath: string): FileMetrics | null {
+        const entry = this.profiles.get(profileName);
+        if (!entry) {
+            return null;
+        }
+
+        // Try exact match first
+        if (entry.metrics.has(filePath)) {
+            return entry.metrics.get(filePath)!;
+        }
+
+        // Try to find by normalized path comparison
+        for (const [profilePath, metrics] of entry.metrics.entries()) {
+            if (this.pathsMatch(profilePath, filePath)) {
+                return metrics;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Remap a file's metrics through its diff against the session's revision
+     * @returns null if the session has no revision or the file's diff is not known yet
+     */
+    private remapFile(
+        filePath: string,
+        fileMetrics: FileMetrics
+    ): { metrics: FileMetrics; removed: LineMetrics[] } | null {
+        const mapping = this.lineMappings.get(filePath);
+        if (!mapping?.hunks || mapping.revision !== this.profileInfo?.revision) {
+            return null;
+        }
+
+        let remapped = this.remappedFiles.get(fileMetrics);
+        if (remapped?.mapping !== mapping) {
+            const hunks = mapping.hunks;
+            remapped = {
+                mapping,
+                ...remapFileMetrics(fileMetrics, (line) => mapLine(hunks, line)),
+            };
+            this.remappedFiles.set(fileMetrics, remapped);
+        }
+        return remapped;
+    }
+
+    /**
+     * Replace the current session entries, attaching baseline deltas when comparing
+     */
+    private setSessionEntries(entries: ProfileEntry[]): void {
+        this.sessionEntries = entries;
+        this.profiles.clear();
+
+        const comparing = this.isComparing();
+        entries.forEach((entry) => {
+            const baselineEntry = comparing && !entry.isDiff ? this.findBaselineEntry(entry) : null;
+            this.profiles.set(
+                entry.name,
+                baselineEntry
+                    ? { ...entry, metrics: this.compareMetrics(entry, baselineEntry) }
+                    : entry
+            );
+        });
+    }
+
+    /**
+     * Find the baseline entry for the same profile type, matching by name,
+     * then type ID, then unit (local files and fetched sessions name types differently)
+     */
+    private findBaselineEntry(entry: ProfileEntry): ProfileEntry | null {
+        if (!this.baseline) {
+            return null;
+        }
+
+        const entries = this.baseline.entries;
+        const sameUnit = entries.filter((e) => e.unit === entry.unit);
+        return (
+            entries.find((e) => e.name === entry.name) ||
+            entries.find((e) => e.typeId === entry.typeId) ||
+            (sameUnit.length === 1 ? sameUnit[0] : null)
+        );
+    }
+
+    /**
+     * Build a copy of an entry's metrics with per-line deltas against the baseline.
+     * Lines that only exist in the baseline are added with zero values so that
+     * improvements down to nothing still show up.
+     */
+    private compareMetrics(entry: ProfileEntry, baselineEntry: ProfileEntry): ProfileMetrics {
+        const result: ProfileMetrics = new Map();
+        const matchedBaselineFiles = new Set<string>();
+
+        entry.metrics.forEach((fileMetrics, filePath) => {
+            const baselineFilePath = this.findMatchingPath(baselineEntry.metrics, filePath);
+            const baselineFile = baselineFilePath
+                ? baselineEntry.metrics.get(baselineFilePath)
+                : undefined;
+            if (baselineFilePath) {
+                matchedBaselineFiles.add(baselineFilePath);
+            }
+
+            const compared: FileMetrics = new Map();
+            fileMetrics.forEach((metrics, line) => {
+                compared.set(
+                    line,
+                    this.withDelta(
+                        metrics,
+                        baselineFile?.get(line),
+                        entry.sampleType,
+                        baselineEntry.sampleType
+                    )
+                );
+            });
+
+            baselineFile?.forEach((baselineMetrics, line) => {
+                if (!compared.has(line)) {
+                    compared.set(
+                        line,
+                        this.withDelta(
+                            createEmptyLineMetrics(filePath, line),
+                            baselineMetrics,
+                            entry.sampleType,
+                            baselineEntry.sampleType
+                        )
+                    );
+                }
+            });
+
+            result.set(filePath, compared);
+        });
+
+        // Files that disappeared from the current session entirely
+        baselineEntry.metrics.forEach((baselineFile, filePath) => {
+            if (matchedBaselineFiles.has(filePath)) {
+                return;
+            }
+
+            const compared: FileMetrics = new Map();
+            baselineFile.forEach((baselineMetrics, line) => {
+                compared.set(
+                    line,
+                    this.withDelta(
+                        createEmptyLineMetrics(filePath, line),
+                        baselineMetrics,
+                        entry.sampleType,
+                        baselineEntry.sampleType
+                    )
+                );
+            });
+            result.set(filePath, compared);
+        });
+
+        return result;
+    }
+
+    /**
+     * Copy line metrics and attach the delta against the baseline line
+     */
+    private withDelta(
+        metrics: LineMetrics,
+        baselineMetrics: LineMetrics | undefined,
+        sampleType: string,
+        baselineSampleType: string
+    ): LineMetrics {
+        const current = getSampleValue(metrics, sampleType);
+        const previous = baselineMetrics
+            ? getSampleValue(baselineMetrics, baselineSampleType)
+            : { total: 0, percent: 0 };
+
+        return {
+            ...metrics,
+            delta: {
+                percent: current.percent - previous.percent,
+                value: current.total - previous.total,
+            },
+        };
+    }
+
+    /**
+     * Find the key in a metrics map that refers to the same file as filePath
+     */
+    private findMatchingPath(metrics: ProfileMetrics, filePath: string): string | null {
+        if (metrics.has(filePath)) {
+            return filePath;
+        }
+        for (const candidate of metrics.keys()) {
+            if (this.pathsMatch(candidate, filePath)) {
+                return candidate;
+            }
+        }
+        return null;
+    }
+
     /**
      * Helper to check if two paths refer to the same file
      */
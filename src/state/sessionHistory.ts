@@ -0,0 +1,327 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as pako from 'pako';
+import * as vscode from 'vscode';
+import { ProfileStore, ProfileEntry, ProfileInfo } from './profileStore';
+import { LiveSession } from './liveSession';
+import { FileMetrics, LineMetrics, ProfileMetrics } from '../parser/sourceMapper';
+import {
+    ParsedProfile,
+    ProfileFunction,
+    ProfileLocation,
+    ProfileSample,
+    SampleType,
+} from '../parser/pprofParser';
+import { SampleLabelFilter, filterProfileByLabels } from '../parser/labelFilter';
+import { FunctionLocation } from '../parser/flameGraphMapper';
+import { getLogger } from '../utils/logger';
+
+const INDEX_KEY = 'pyroscope.recentSessions';
+const FORMAT_VERSION = 2;
+
+// Label filters, revisions and baselines often change in quick succession; save once after
+const SAVE_DELAY_MS = 2000;
+
+/**
+ * What the recent sessions picker shows without reading the session file
+ */
+export interface SessionSummary {
+    info: ProfileInfo;
+    profileNames: string[];
+    fileCount: number;
+}
+
+interface SerializedProfile {
+    sampleTypes: SampleType[];
+    samples: ProfileSample[];
+    locations: ProfileLocation[];
+    functions: ProfileFunction[];
+    stringTable: string[];
+    timeNanos: number;
+    durationNanos: number;
+}
+
+interface SerializedEntry {
+    name: string;
+    typeId: string;
+    sampleType: string;
+    unit: string;
+    isDiff?: boolean;
+    labelFilter?: SampleLabelFilter;
+    metrics: [string, LineMetrics[]][];
+    profileIndex?: number; // Into the session's profiles; unfiltered when a label filter is applied
+    functionLocations?: [string, FunctionLocation][];
+}
+
+interface SerializedSession {
+    version: number;
+    info: ProfileInfo;
+    entries: SerializedEntry[];
+    profiles: SerializedProfile[]; // Stored once when several entries come from one file
+}
+
+/**
+ * Persists the loaded sessions as gzipped JSON in extension storage, so they survive
+ * window reloads and can be switched between without fetching again.
+ *
+ * The summaries live in workspace state, most recently used first; each session's
+ * entries are written to their own file. Saves are debounced, and a session in live
+ * mode is saved when live mode stops or pauses rather than on every refresh.
+ */
+export class SessionHistory implements vscode.Disposable {
+    private lastSaved: ProfileInfo | null = null;
+    private saving: Promise<void> = Promise.resolve();
+    private pending: Map<string, { info: ProfileInfo; entries: ProfileEntry[] }> = new Map();
+    private timer: NodeJS.Timeout | undefined;
+    private subscriptions: vscode.Disposable[];
+
+    constructor(
+        private profileStore: ProfileStore,
+        private liveSession: LiveSession,
+        private workspaceState: vscode.Memento,
+        private storageUri: vscode.Uri
+    ) {
+        this.subscriptions = [
+            profileStore.onProfileChanged(() => {
+                const info = profileStore.getProfileInfo();
+                // Baseline changes fire too; only new sessions and changed ones are saved
+                if (info && info !== this.lastSaved && this.getLimit() > 0) {
+                    this.lastSaved = info;
+                    this.pending.set(info.id, {
+                        info,
+                        entries: profileStore.getSessionEntries(),
+                    });
+                    if (!this.isLive()) {
+                        this.scheduleSave();
+                    }
+                }
+            }),
+            liveSession.onDidChange(() => {
+                if (this.pending.size > 0 && !this.isLive()) {
+                    this.scheduleSave();
+                }
+            }),
+        ];
+    }
+
+    /**
+     * Summaries of the persisted sessions, most recently used first
+     */
+    public getSessions(): SessionSummary[] {
+        return this.workspaceState.get<SessionSummary[]>(INDEX_KEY, []);
+    }
+
+    /**
+     * Load a persisted session into the profile store
+     * @returns false if the session file is missing or unreadable
+     */
+    public async restore(id: string): Promise<boolean> {
+        const logger = getLogger();
+        const summary = this.getSessions().find((s) => s.info.id === id);
+        if (!summary) {
+            return false;
+        }
+
+        try {
+            this.flush();
+            await this.saving;
+            const compressed = await fs.promises.readFile(this.getSessionPath(id));
+            const session: SerializedSession = JSON.parse(
+                pako.ungzip(compressed, { to: 'string' })
+            );
+            if (session.version !== FORMAT_VERSION) {
+                throw new Error(`unsupported format version ${session.version}`);
+            }
+
+            this.lastSaved = session.info;
+            const profiles = session.profiles.map((profile) => this.deserializeProfile(profile));
+            this.profileStore.restoreSession(
+                session.info,
+                session.entries.map((entry) => this.deserializeEntry(entry, profiles))
+            );
+            await this.updateIndex(summary);
+            logger.info(`Restored session: ${session.info.name}`);
+            return true;
+        } catch (error) {
+            const errMsg = error instanceof Error ? error.message : String(error);
+            logger.warn(`Failed to restore session ${summary.info.name}: ${errMsg}`);
+            await this.remove(id);
+            return false;
+        }
+    }
+
+    /**
+     * Restore the most recently used session, if any
+     */
+    public async restoreLatest(): Promise<void> {
+        const latest = this.getSessions()[0];
+        if (latest && this.getLimit() > 0) {
+            await this.restore(latest.info.id);
+        }
+    }
+
+    public dispose(): void {
+        // Start writing what is left; the write may still finish while the window closes
+        this.flush();
+        this.subscriptions.forEach((subscription) => subscription.dispose());
+    }
+
+    private isLive(): boolean {
+        return this.liveSession.isActive() && !this.liveSession.isPaused();
+    }
+
+    private scheduleSave(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.timer = setTimeout(() => this.flush(), SAVE_DELAY_MS);
+    }
+
+    /**
+     * Save all pending sessions now
+     */
+    private flush(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        this.pending.forEach(({ info, entries }) => {
+            this.saving = this.saving.then(() => this.save(info, entries));
+        });
+        this.pending.clear();
+    }
+
+    /**
+     * Maximum number of sessions to keep, from settings
+     */
+    private getLimit(): number {
+        const config = vscode.workspace.getConfiguration('pyroscope');
+        return Math.max(0, config.get<number>('recentSessions', 5));
+    }
+
+    private getSessionPath(id: string): string {
+        return path.join(this.storageUri.fsPath, 'sessions', `${id}.json.gz`);
+    }
+
+    private async save(info: ProfileInfo, entries: ProfileEntry[]): Promise<void> {
+        if (entries.length === 0) {
+            return;
+        }
+
+        const logger = getLogger();
+        try {
+            const profiles: ParsedProfile[] = [];
+            const session: SerializedSession = {
+                version: FORMAT_VERSION,
+                info,
+                entries: entries.map((entry) => this.serializeEntry(entry, profiles)),
+                profiles: profiles.map((profile) => ({
+                    ...profile,
+                    locations: Array.from(profile.locations.values()),
+                    functions: Array.from(profile.functions.values()),
+                })),
+            };
+            const sessionPath = this.getSessionPath(info.id);
+            await fs.promises.mkdir(path.dirname(sessionPath), { recursive: true });
+            await fs.promises.writeFile(sessionPath, pako.gzip(JSON.stringify(session)));
+
+            await this.updateIndex({
+                info,
+                profileNames: entries.map((entry) => entry.name),
+                fileCount: new Set(entries.flatMap((entry) => Array.from(entry.metrics.keys())))
+                    .size,
+            });
+            logger.info(`Saved session: ${info.name}`);
+        } catch (error) {
+            const errMsg = error instanceof Error ? error.message : String(error);
+            logger.warn(`Failed to save session ${info.name}: ${errMsg}`);
+        }
+    }
+
+    /**
+     * Move a session to the front of the index and drop sessions beyond the limit
+     */
+    private async updateIndex(summary: SessionSummary): Promise<void> {
+        const sessions = [
+            summary,
+            ...this.getSessions().filter((s) => s.info.id !== summary.info.id),
+        ];
+        const kept = sessions.slice(0, this.getLimit());
+        const dropped = sessions.slice(kept.length);
+
+        await this.workspaceState.update(INDEX_KEY, kept);
+        await Promise.all(
+            dropped.map((s) => fs.promises.rm(this.getSessionPath(s.info.id), { force: true }))
+        );
+    }
+
+    private async remove(id: string): Promise<void> {
+        await this.workspaceState.update(
+            INDEX_KEY,
+            this.getSessions().filter((s) => s.info.id !== id)
+        );
+        await fs.promises.rm(this.getSessionPath(id), { force: true });
+    }
+
+    /**
+     * @param profiles - Profiles of the session so far; the entry's profile is added if new
+     */
+    private serializeEntry(entry: ProfileEntry, profiles: ParsedProfile[]): SerializedEntry {
+        const profile = entry.sourceProfile || entry.profile;
+        if (profile && !profiles.includes(profile)) {
+            profiles.push(profile);
+        }
+        return {
+            name: entry.name,
+            typeId: entry.typeId,
+            sampleType: entry.sampleType,
+            unit: entry.unit,
+            isDiff: entry.isDiff,
+            labelFilter: entry.labelFilter,
+            metrics: Array.from(entry.metrics.entries()).map(([filePath, fileMetrics]) => [
+                filePath,
+                Array.from(fileMetrics.values()),
+            ]),
+            profileIndex: profile ? profiles.indexOf(profile) : undefined,
+            functionLocations: entry.functionLocations
+                ? Array.from(entry.functionLocations.entries())
+                : undefined,
+        };
+    }
+
+    private deserializeProfile(profile: SerializedProfile): ParsedProfile {
+        return {
+            ...profile,
+            locations: new Map(profile.locations.map((l) => [l.id, l])),
+            functions: new Map(profile.functions.map((f) => [f.id, f])),
+        };
+    }
+
+    private deserializeEntry(entry: SerializedEntry, profiles: ParsedProfile[]): ProfileEntry {
+        const metrics: ProfileMetrics = new Map();
+        entry.metrics.forEach(([filePath, lines]) => {
+            const fileMetrics: FileMetrics = new Map();
+            lines.forEach((lineMetrics) => fileMetrics.set(lineMetrics.line, lineMetrics));
+            metrics.set(filePath, fileMetrics);
+        });
+
+        const profile = entry.profileIndex !== undefined ? profiles[entry.profileIndex] : undefined;
+
+        // Metrics were saved filtered; only the profile needs narrowing again
+        const filtered = profile && entry.labelFilter;
+        return {
+            name: entry.name,
+            typeId: entry.typeId,
+            sampleType: entry.sampleType,
+            unit: entry.unit,
+            isDiff: entry.isDiff,
+            metrics,
+            profile: filtered ? filterProfileByLabels(profile!, entry.labelFilter!) : profile,
+            labelFilter: entry.labelFilter,
+            sourceProfile: filtered ? profile : undefined,
+            functionLocations: entry.functionLocations
+                ? new Map(entry.functionLocations)
+                : undefined,
+        };
+    }
+}
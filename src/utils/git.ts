@@ -0,0 +1,54 @@
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+// Diffs of large generated files can be big; anything beyond this is not worth remapping
+const MAX_DIFF_BYTES = 16 * 1024 * 1024;
+
+/**
+ * Resolve a revision (commit, tag or branch) in the repository containing a directory
+ * @returns The full commit hash, or null if the revision is unknown or there is no repository
+ */
+export async function resolveRevision(cwd: string, revision: string): Promise<string | null> {
+    try {
+        const { stdout } = await execFileAsync(
+            'git',
+            ['rev-parse', '--verify', '--quiet', '--end-of-options', `${revision}^{commit}`],
+            { cwd }
+        );
+        return stdout.trim() || null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Diff a file between a revision and the working copy on disk, without context lines
+ * @throws Error if the file is not in a git repository or the revision is unknown
+ */
+export async function diffWorkingFile(filePath: string, revision: string): Promise<string> {
+    const { stdout } = await execFileAsync(
+        'git',
+        [
+            'diff',
+            '--no-color',
+            '--no-ext-diff',
+            '--unified=0',
+            '--end-of-options',
+            revision,
+            '--',
+            path.basename(filePath),
+        ],
+        { cwd: path.dirname(filePath), maxBuffer: MAX_DIFF_BYTES }
+    );
+    return stdout;
+}
+
+/**
+ * Shorten full commit hashes for display, leaving tags and branch names as they are
+ */
+export function shortRevision(revision: string): string {
+    return /^[0-9a-f]{40}$/i.test(revision) ? revision.slice(0, 7) : revision;
+}
@@ -9,15 +9,270 @@ export interface PathMapping {
     to: string;
 }
 
+/**
+ * Index of workspace files for O(1) lookups by full path and by basename
+ */
+interface FileIndex {
+    byPath: Set<string>; // Normalized absolute paths
+    byBasename: Map<string, string[]>;
+}
+
 export class PathResolver {
+    // Shared across resolvers so the workspace is only indexed once; see clearCache()
+    private static index: FileIndex | null = null;
+    private static indexPromise: Promise<FileIndex> | null = null;
+    private static resolved: Map<string, string> = new Map();
+    private static unresolvable: Set<string> = new Set();
+
     private workspaceFolders: readonly vscode.WorkspaceFolder[];
     private pathMappings: PathMapping[];
     private logger: vscode.LogOutputChannel;
+    private useIndexed: boolean;
+    private cacheHits = 0;
+    private cacheMisses = 0;
 
     constructor(logger: vscode.LogOutputChannel) {
         this.workspaceFolders = vscode.workspace.workspaceFolders || [];
         this.pathMappings = this.loadPathMappings();
         this.logger = logger;
+        this.useIndexed = vscode.workspace
+            .getConfiguration('pyroscope')
+            .get<boolean>('useIndexedPathResolution', true);
+    }
+
+    /**
+     * Drop the workspace file index and all memoized resolutions.
+     * Called when workspace folders or path settings change.
+     */
+    public static clearCache(): void {
+        PathResolver.index = null;
+        PathResolver.indexPromise = null;
+        PathResolver.resolved.clear();
+        PathResolver.unresolvable.clear();
+    }
+
+    /**
+     * Add a created file, or the files of a created directory, to the index if there is
+     * one. In both modes, resolutions it may change are forgotten: failed ones, and those
+     * of files with the same name (the basename fallback may have become ambiguous).
+     */
+    public static async addPath(uri: vscode.Uri): Promise<void> {
+        if (PathResolver.isExcluded(uri.fsPath)) {
+            return;
+        }
+
+        const files = await PathResolver.listFiles(uri.fsPath);
+        if (files.length === 0) {
+            return;
+        }
+
+        const index = await PathResolver.getBuiltIndex();
+        files.forEach((filePath) => {
+            const normalized = PathResolver.normalize(filePath);
+            if (!index || index.byPath.has(normalized)) {
+                return;
+            }
+            index.byPath.add(normalized);
+
+            const basename = path.basename(filePath);
+            index.byBasename.set(basename, [...(index.byBasename.get(basename) || []), filePath]);
+        });
+        PathResolver.forgetResolutions(files);
+    }
+
+    /**
+     * Remove a deleted file, or everything under a deleted directory, from the index if
+     * there is one, and forget resolutions it may change
+     */
+    public static async removePath(uri: vscode.Uri): Promise<void> {
+        if (PathResolver.isExcluded(uri.fsPath)) {
+            return;
+        }
+
+        const removed = PathResolver.normalize(uri.fsPath);
+        const isRemoved = (filePath: string) => {
+            const normalized = PathResolver.normalize(filePath);
+            return normalized === removed || normalized.startsWith(removed + '/');
+        };
+
+        // Sequential mode has no index to list the removed files; resolutions into them will do
+        const files = [uri.fsPath];
+        PathResolver.resolved.forEach((resolvedPath) => {
+            if (isRemoved(resolvedPath)) {
+                files.push(resolvedPath);
+            }
+        });
+
+        const index = await PathResolver.getBuiltIndex();
+        if (index) {
+            index.byBasename.forEach((matches, basename) => {
+                const kept = matches.filter((filePath) => !isRemoved(filePath));
+                if (kept.length === matches.length) {
+                    return;
+                }
+                files.push(...matches.filter(isRemoved));
+                if (kept.length > 0) {
+                    index.byBasename.set(basename, kept);
+                } else {
+                    index.byBasename.delete(basename);
+                }
+            });
+            files.forEach((filePath) => index.byPath.delete(PathResolver.normalize(filePath)));
+        }
+        PathResolver.forgetResolutions(files);
+    }
+
+    /**
+     * Directories no resolution mode looks into: dependencies and hidden directories
+     * such as .git. Shared by the index, its watcher updates and the sequential walk.
+     */
+    private static isSkippedDirectory(name: string): boolean {
+        return name === 'node_modules' || name.startsWith('.');
+    }
+
+    /**
+     * Paths outside the workspace or inside a skipped directory
+     */
+    private static isExcluded(filePath: string): boolean {
+        const normalized = PathResolver.normalize(filePath);
+        const folder = (vscode.workspace.workspaceFolders || [])
+            .map((f) => PathResolver.normalize(f.uri.fsPath))
+            .find((folderPath) => normalized.startsWith(folderPath + '/'));
+        if (!folder) {
+            return true;
+        }
+
+        const directories = normalized
+            .slice(folder.length + 1)
+            .split('/')
+            .slice(0, -1);
+        return directories.some(PathResolver.isSkippedDirectory);
+    }
+
+    /**
+     * The file itself, or the files under a directory that is not skipped
+     */
+    private static async listFiles(filePath: string): Promise<string[]> {
+        try {
+            const stat = await fs.promises.stat(filePath);
+            if (!stat.isDirectory()) {
+                return stat.isFile() ? [filePath] : [];
+            }
+            if (PathResolver.isSkippedDirectory(path.basename(filePath))) {
+                return [];
+            }
+
+            const entries = await fs.promises.readdir(filePath);
+            const nested = await Promise.all(
+                entries.map((name) => PathResolver.listFiles(path.join(filePath, name)))
+            );
+            return nested.flat();
+        } catch {
+            // Already gone again, e.g. a lock or temp file
+            return [];
+        }
+    }
+
+    /**
+     * The index once built, or null in sequential mode or if indexing failed
+     */
+    private static async getBuiltIndex(): Promise<FileIndex | null> {
+        return PathResolver.indexPromise
+            ? PathResolver.indexPromise.catch(() => null)
+            : Promise.resolve(null);
+    }
+
+    private static forgetResolutions(files: string[]): void {
+        const basenames = new Set(files.map((filePath) => path.basename(filePath)));
+        PathResolver.resolved.forEach((resolvedPath, profilePath) => {
+            if (basenames.has(path.basename(resolvedPath))) {
+                PathResolver.resolved.delete(profilePath);
+            }
+        });
+        PathResolver.unresolvable.clear();
+    }
+
+    private static normalize(filePath: string): string {
+        return path.normalize(filePath).replace(/\\/g, '/');
+    }
+
+    /**
+     * Build the workspace file index (indexed mode only, no-op once built)
+     */
+    public async initialize(): Promise<void> {
+        if (!this.useIndexed) {
+            this.logger.debug('Using sequential path resolution');
+            return;
+        }
+
+        if (!PathResolver.indexPromise) {
+            PathResolver.indexPromise = this.buildIndex();
+        }
+
+        try {
+            PathResolver.index = await PathResolver.indexPromise;
+        } catch (error: any) {
+            // Fall back to sequential resolution for this run
+            PathResolver.indexPromise = null;
+            this.logger.error(`Failed to index workspace files: ${error.message}`);
+        }
+    }
+
+    /**
+     * Resolve a batch of unique profile paths up front so sample processing only hits the cache
+     */
+    public async preWarmCache(profilePaths: string[]): Promise<void> {
+        const start = Date.now();
+        const YIELD_INTERVAL = 500;
+
+        for (let i = 0; i < profilePaths.length; i++) {
+            if (i % YIELD_INTERVAL === 0 && i > 0) {
+                await new Promise((resolve) => setImmediate(resolve));
+            }
+            this.resolveFilePath(profilePaths[i]);
+        }
+
+        this.logger.info(
+            `Cache pre-warmed: ${profilePaths.length} paths in ${Date.now() - start}ms (${PathResolver.resolved.size} resolved, ${PathResolver.unresolvable.size} unresolvable)`
+        );
+    }
+
+    /**
+     * Log cache hit rate for this resolver
+     */
+    public logCacheStats(): void {
+        const total = this.cacheHits + this.cacheMisses;
+        if (total === 0) {
+            return;
+        }
+        const percentage = ((this.cacheHits / total) * 100).toFixed(1);
+        this.logger.info(`Cache hit rate: ${this.cacheHits}/${total} (${percentage}%)`);
+    }
+
+    private async buildIndex(): Promise<FileIndex> {
+        const start = Date.now();
+        const index: FileIndex = { byPath: new Set(), byBasename: new Map() };
+
+        // The exclude only narrows the search; the filter is what keeps both modes in step
+        const uris = await vscode.workspace.findFiles('**/*', '{**/node_modules/**,**/.*/**}');
+        uris.forEach((uri) => {
+            const filePath = uri.fsPath;
+            if (PathResolver.isExcluded(filePath)) {
+                return;
+            }
+            index.byPath.add(this.normalizePath(filePath));
+
+            const basename = path.basename(filePath);
+            const matches = index.byBasename.get(basename);
+            if (matches) {
+                matches.push(filePath);
+            } else {
+                index.byBasename.set(basename, [filePath]);
+            }
+        });
+
+        this.logger.info(`Index built: ${index.byPath.size} files in ${Date.now() - start}ms`);
+        return index;
     }
 
     private getDefaultPathMappings(): PathMapping[] {
@@ -72,6 +327,101 @@ export class PathResolver {
     }
 
     public resolveFilePath(profilePath: string): string | null {
+        const cached = PathResolver.resolved.get(profilePath);
+        if (cached !== undefined) {
+            this.cacheHits++;
+            return cached;
+        }
+        if (PathResolver.unresolvable.has(profilePath)) {
+            this.cacheHits++;
+            return null;
+        }
+        this.cacheMisses++;
+
+        const result =
+            this.useIndexed && PathResolver.index
+                ? this.resolveFilePathIndexed(profilePath, PathResolver.index)
+                : this.resolveFilePathSequential(profilePath);
+
+        if (result) {
+            PathResolver.resolved.set(profilePath, result);
+        } else {
+            PathResolver.unresolvable.add(profilePath);
+        }
+        return result;
+    }
+
+    /**
+     * Same strategy chain as sequential resolution, with existence checks and the
+     * basename fallback answered by the workspace index
+     */
+    private resolveFilePathIndexed(profilePath: string, index: FileIndex): string | null {
+        this.logger.trace(`Resolving (indexed): ${profilePath}`);
+
+        // Strategy 1: Apply path mappings
+        for (const mapping of this.pathMappings) {
+            if (profilePath.startsWith(mapping.from)) {
+                const relativePath = profilePath.substring(mapping.from.length);
+                const mappedPath = path.join(mapping.to, relativePath);
+
+                if (this.fileExists(mappedPath, index)) {
+                    this.logger.debug(`✓ Mapped: ${profilePath} → ${mappedPath}`);
+                    return mappedPath;
+                }
+                this.logger.trace(`  Mapping didn't exist: ${mappedPath}`);
+            }
+        }
+
+        // Strategy 2: Try as absolute path
+        if (path.isAbsolute(profilePath) && this.fileExists(profilePath, index)) {
+            this.logger.debug(`✓ Absolute path exists: ${profilePath}`);
+            return profilePath;
+        }
+
+        // Strategy 3: Relative to workspace folders
+        for (const folder of this.workspaceFolders) {
+            const candidatePath = path.join(folder.uri.fsPath, profilePath);
+            if (this.fileExists(candidatePath, index)) {
+                this.logger.debug(`✓ Workspace relative: ${profilePath} → ${candidatePath}`);
+                return candidatePath;
+            }
+        }
+
+        // Strategy 4: Basename fallback with collision detection
+        const basename = path.basename(profilePath);
+        const matches = index.byBasename.get(basename) || [];
+
+        if (matches.length === 1) {
+            this.logger.warn(`⚠ Using basename fallback: ${profilePath} → ${matches[0]}`);
+            return matches[0];
+        } else if (matches.length > 1) {
+            this.logger.warn(
+                `⚠ Multiple files match basename "${basename}": ${matches.join(', ')}`
+            );
+            return null;
+        }
+
+        this.logger.warn(`✗ Path not resolved: ${profilePath}`);
+        return null;
+    }
+
+    /**
+     * Check the index first; paths it leaves out, outside the workspace (e.g. mapped to
+     * the home directory) or excluded from it (node_modules), still need a disk check so
+     * that both resolution modes agree
+     */
+    private fileExists(filePath: string, index: FileIndex): boolean {
+        return index.byPath.has(this.normalizePath(filePath)) || fs.existsSync(filePath);
+    }
+
+    private normalizePath(filePath: string): string {
+        return PathResolver.normalize(filePath);
+    }
+
+    /**
+     * Original resolution using direct disk checks and a recursive directory walk
+     */
+    private resolveFilePathSequential(profilePath: string): string | null {
         this.logger.trace(`Resolving: ${profilePath}`);
 
         // Strategy 1: Apply path mappings
@@ -105,7 +455,7 @@ export class PathResolver {
 
         // Strategy 4: Basename fallback with collision detection
         const basename = path.basename(profilePath);
-        const matches = this.findFilesByBasename(basename);
+        const matches = this.findFilesByBasenameRecursive(basename);
 
         if (matches.length === 1) {
             this.logger.warn(`⚠ Using basename fallback: ${profilePath} → ${matches[0]}`);
@@ -121,7 +471,7 @@ export class PathResolver {
         return null;
     }
 
-    private findFilesByBasename(basename: string): string[] {
+    private findFilesByBasenameRecursive(basename: string): string[] {
         // Search workspace for files matching basename
         const matches: string[] = [];
         for (const folder of this.workspaceFolders) {
@@ -136,7 +486,7 @@ export class PathResolver {
             const entries = fs.readdirSync(dir, { withFileTypes: true });
             for (const entry of entries) {
                 const fullPath = path.join(dir, entry.name);
-                if (entry.isDirectory() && !entry.name.startsWith('.')) {
+                if (entry.isDirectory() && !PathResolver.isSkippedDirectory(entry.name)) {
                     this.searchDirectory(fullPath, basename, results);
                 } else if (entry.isFile() && entry.name === basename) {
                     results.push(fullPath);
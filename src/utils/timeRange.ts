@@ -0,0 +1,120 @@
+/**
+ * A query time range in unix seconds
+ */
+export interface TimeRange {
+    from: number;
+    to: number;
+}
+
+/**
+ * A time range as entered (e.g. "now-1h" to "now"), re-evaluated against the current
+ * time whenever it is resolved so saved queries always cover the latest data
+ */
+export interface TimeRangeSpec {
+    from: string;
+    to: string;
+    label?: string;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+    s: 1,
+    m: 60,
+    h: 3600,
+    d: 86400,
+    w: 604800,
+};
+
+/**
+ * Parse a duration such as "90m", "1h30m" or "2d"
+ * @returns Duration in seconds, or null if the input is not a valid duration
+ */
+export function parseDuration(input: string): number | null {
+    const trimmed = input.trim().toLowerCase();
+    if (!/^(\d+[smhdw])+$/.test(trimmed)) {
+        return null;
+    }
+
+    let seconds = 0;
+    trimmed.replace(/(\d+)([smhdw])/g, (_, amount: string, unit: string) => {
+        seconds += Number(amount) * DURATION_UNITS[unit];
+        return '';
+    });
+    return seconds > 0 ? seconds : null;
+}
+
+/**
+ * Parse a point in time: "now", "now-3d" / "now-1h30m", ISO 8601 / "YYYY-MM-DD HH:MM UTC"
+ * or unix seconds/milliseconds. Dates without a zone are local time.
+ * @param now - Reference time for relative expressions, in unix seconds
+ * @returns Unix timestamp in seconds, or null if the input is not a valid time
+ */
+export function parseTimeExpression(input: string, now: number): number | null {
+    const trimmed = input.trim();
+
+    const relative = /^now\s*(?:-\s*(\S+))?$/i.exec(trimmed);
+    if (relative) {
+        if (!relative[1]) {
+            return now;
+        }
+        const duration = parseDuration(relative[1]);
+        return duration === null ? null : now - duration;
+    }
+
+    if (/^\d+$/.test(trimmed)) {
+        const value = Number(trimmed);
+        // Anything this large is milliseconds
+        return value > 1e11 ? Math.floor(value / 1000) : value;
+    }
+
+    const parsed = Date.parse(trimmed.replace(/\s+UTC$/i, 'Z'));
+    return isNaN(parsed) ? null : Math.floor(parsed / 1000);
+}
+
+/**
+ * Describe a range for session names, e.g. "2026-10-12 14:00 – 14:30 UTC"
+ */
+export function formatTimeRange(range: TimeRange): string {
+    const format = (seconds: number) =>
+        new Date(seconds * 1000).toISOString().slice(0, 16).replace('T', ' ');
+
+    const from = format(range.from);
+    const to = format(range.to);
+
+    // Omit the date of the end when both are on the same day
+    if (from.slice(0, 10) === to.slice(0, 10)) {
+        return `${from} – ${to.slice(11)} UTC`;
+    }
+    return `${from} – ${to} UTC`;
+}
+
+/**
+ * Resolve a range spec against the current time
+ * @throws Error if either end is not a valid time or the range is empty
+ */
+export function resolveTimeRange(spec: TimeRangeSpec, now: number): TimeRange {
+    const from = parseTimeExpression(spec.from, now);
+    const to = parseTimeExpression(spec.to, now);
+    if (from === null || to === null) {
+        throw new Error(`Invalid time range: ${spec.from} to ${spec.to}`);
+    }
+    if (to <= from) {
+        throw new Error(`Empty time range: ${spec.from} to ${spec.to}`);
+    }
+    return { from, to };
+}
+
+/**
+ * Describe a range spec for session names: its label, the relative expressions,
+ * or the resolved absolute range
+ */
+export function describeTimeRange(spec: TimeRangeSpec, range: TimeRange): string {
+    if (spec.label) {
+        return spec.label;
+    }
+
+    const isRelative = (expression: string) => /^now/i.test(expression.trim());
+    if (isRelative(spec.from) && isRelative(spec.to)) {
+        return `${spec.from.trim()} to ${spec.to.trim()}`;
+    }
+    return formatTimeRange(range);
+}
@@ -0,0 +1,277 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ProfileStore, ProfileEntry } from '../state/profileStore';
+import { LineMetrics, getSampleValue } from '../parser/sourceMapper';
+import { formatPercent, formatValue } from '../decorations/hintRenderer';
+
+const MAX_FILES = 50;
+const MAX_CHILDREN = 20;
+
+export type HotspotRanking = 'self' | 'cumulative';
+
+/**
+ * Self and cumulative cost of a file, function or line within one profile type
+ */
+interface HotspotStats {
+    self: number; // Percent
+    cumulative: number; // Percent
+    value: number; // Cumulative value in the profile's unit
+}
+
+type HotspotNode =
+    | { kind: 'profile'; entry: ProfileEntry }
+    | { kind: 'file'; entry: ProfileEntry; filePath: string; stats: HotspotStats; line: number }
+    | {
+          kind: 'function';
+          entry: ProfileEntry;
+          filePath: string;
+          name: string;
+          stats: HotspotStats;
+          lines: LineMetrics[];
+      }
+    | { kind: 'line'; entry: ProfileEntry; filePath: string; metrics: LineMetrics };
+
+/**
+ * Sidebar tree of the loaded session's hottest files, each expanding to its hottest
+ * functions and lines, per profile type
+ */
+export class HotspotsTreeProvider implements vscode.TreeDataProvider<HotspotNode> {
+    private changeEmitter = new vscode.EventEmitter<HotspotNode | undefined>();
+
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(private profileStore: ProfileStore) {}
+
+    public refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    public getTreeItem(node: HotspotNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'profile': {
+                const item = new vscode.TreeItem(
+                    node.entry.name,
+                    vscode.TreeItemCollapsibleState.Expanded
+                );
+                item.description = `${node.entry.metrics.size} files`;
+                item.iconPath = new vscode.ThemeIcon('flame');
+                return item;
+            }
+            case 'file': {
+                const item = new vscode.TreeItem(
+                    path.basename(node.filePath),
+                    vscode.TreeItemCollapsibleState.Collapsed
+                );
+                item.resourceUri = vscode.Uri.file(node.filePath);
+                item.description = `${this.describe(node.stats)}  ${this.relativeDirectory(node.filePath)}`;
+                item.tooltip = this.tooltip(node.filePath, node.stats, node.entry.unit);
+                item.command = this.openCommand(node.filePath, node.line);
+                return item;
+            }
+            case 'function': {
+                const item = new vscode.TreeItem(
+                    node.name,
+                    vscode.TreeItemCollapsibleState.Collapsed
+                );
+                item.description = this.describe(node.stats);
+                item.tooltip = this.tooltip(node.name, node.stats, node.entry.unit);
+                item.iconPath = new vscode.ThemeIcon('symbol-function');
+                item.command = this.openCommand(node.filePath, node.lines[0].line);
+                return item;
+            }
+            case 'line': {
+                const stats = this.lineStats(node.metrics, node.entry.sampleType);
+                const item = new vscode.TreeItem(
+                    `Line ${node.metrics.line}`,
+                    vscode.TreeItemCollapsibleState.None
+                );
+                item.description = this.describe(stats);
+                item.tooltip = this.tooltip(
+                    `${path.basename(node.filePath)}:${node.metrics.line}`,
+                    stats,
+                    node.entry.unit
+                );
+                item.iconPath = new vscode.ThemeIcon('debug-stackframe-dot');
+                item.command = this.openCommand(node.filePath, node.metrics.line);
+                return item;
+            }
+        }
+    }
+
+    public getChildren(node?: HotspotNode): HotspotNode[] {
+        if (!node) {
+            const entries = this.profileStore
+                .getLoadedProfileNames()
+                .map((name) => this.profileStore.getProfileEntry(name))
+                .filter((entry): entry is ProfileEntry => entry !== null);
+
+            // Skip the profile type level when there is only one
+            if (entries.length === 1) {
+                return this.getFiles(entries[0]);
+            }
+            return entries.map((entry) => ({ kind: 'profile', entry }));
+        }
+
+        switch (node.kind) {
+            case 'profile':
+                return this.getFiles(node.entry);
+            case 'file':
+                return this.getFileChildren(node.entry, node.filePath);
+            case 'function':
+                return this.rank(node.lines, (metrics) =>
+                    this.lineStats(metrics, node.entry.sampleType)
+                )
+                    .slice(0, MAX_CHILDREN)
+                    .map((metrics) => ({
+                        kind: 'line',
+                        entry: node.entry,
+                        filePath: node.filePath,
+                        metrics,
+                    }));
+            case 'line':
+                return [];
+        }
+    }
+
+    /**
+     * Ranking from settings
+     */
+    private getRanking(): HotspotRanking {
+        const config = vscode.workspace.getConfiguration('pyroscope');
+        return config.get<HotspotRanking>('hotspots.rankBy', 'self');
+    }
+
+    private getFiles(entry: ProfileEntry): HotspotNode[] {
+        const files: Extract<HotspotNode, { kind: 'file' }>[] = [];
+        this.profileStore.getEntryMetrics(entry.name).forEach((fileMetrics, filePath) => {
+            const lines = Array.from(fileMetrics.values());
+            if (lines.length === 0) {
+                return;
+            }
+
+            const functions = this.groupByFunction(lines, entry.sampleType);
+            const lineStats = lines.map((metrics) => this.lineStats(metrics, entry.sampleType));
+
+            // Self cost adds up across the file; cumulative cost of the file is that of its
+            // hottest function, since functions calling each other share samples
+            const hottest = [...functions.map((f) => f.stats), ...lineStats].reduce((a, b) =>
+                b.cumulative > a.cumulative ? b : a
+            );
+            const stats: HotspotStats = {
+                self: lineStats.reduce((sum, s) => sum + s.self, 0),
+                cumulative: hottest.cumulative,
+                value: hottest.value,
+            };
+
+            const [topLine] = this.rank(lines, (metrics) =>
+                this.lineStats(metrics, entry.sampleType)
+            );
+            files.push({ kind: 'file', entry, filePath, stats, line: (topLine || lines[0]).line });
+        });
+
+        return this.rank(files, (node) => node.stats).slice(0, MAX_FILES);
+    }
+
+    /**
+     * Functions of a file, then lines the profile did not attribute to a function
+     */
+    private getFileChildren(entry: ProfileEntry, filePath: string): HotspotNode[] {
+        const fileMetrics = this.profileStore.getEntryMetrics(entry.name).get(filePath);
+        if (!fileMetrics) {
+            return [];
+        }
+
+        const lines = Array.from(fileMetrics.values());
+        const functions: HotspotNode[] = this.rank(
+            this.groupByFunction(lines, entry.sampleType),
+            (f) => f.stats
+        )
+            .slice(0, MAX_CHILDREN)
+            .map((f) => ({ kind: 'function', entry, filePath, ...f }));
+
+        const unattributed: HotspotNode[] = this.rank(
+            lines.filter((metrics) => !metrics.functionName),
+            (metrics) => this.lineStats(metrics, entry.sampleType)
+        )
+            .slice(0, MAX_CHILDREN)
+            .map((metrics) => ({ kind: 'line', entry, filePath, metrics }));
+
+        return [...functions, ...unattributed];
+    }
+
+    private groupByFunction(
+        lines: LineMetrics[],
+        sampleType: string
+    ): { name: string; stats: HotspotStats; lines: LineMetrics[] }[] {
+        const groups = new Map<string, LineMetrics[]>();
+        lines.forEach((metrics) => {
+            if (metrics.functionName) {
+                const group = groups.get(metrics.functionName) || [];
+                group.push(metrics);
+                groups.set(metrics.functionName, group);
+            }
+        });
+
+        // A sample passes through one line of each function on its stack, so line costs add up
+        return Array.from(groups.entries()).map(([name, group]) => {
+            const stats = group
+                .map((metrics) => this.lineStats(metrics, sampleType))
+                .reduce((sum, s) => ({
+                    self: sum.self + s.self,
+                    cumulative: sum.cumulative + s.cumulative,
+                    value: sum.value + s.value,
+                }));
+            return { name, stats, lines: group.sort((a, b) => a.line - b.line) };
+        });
+    }
+
+    private lineStats(metrics: LineMetrics, sampleType: string): HotspotStats {
+        const { total, percent, selfPercent } = getSampleValue(metrics, sampleType);
+        return { self: selfPercent, cumulative: percent, value: total };
+    }
+
+    /**
+     * Sort by the configured ranking, dropping items without any cost for it
+     */
+    private rank<T>(items: T[], getStats: (item: T) => HotspotStats): T[] {
+        const key = this.getRanking();
+        return items
+            .map((item) => ({ item, score: getStats(item)[key] }))
+            .filter(({ score }) => score > 0)
+            .sort((a, b) => b.score - a.score)
+            .map(({ item }) => item);
+    }
+
+    private describe(stats: HotspotStats): string {
+        return this.getRanking() === 'self'
+            ? `${formatPercent(stats.self)} self`
+            : `${formatPercent(stats.cumulative)} total`;
+    }
+
+    private tooltip(title: string, stats: HotspotStats, unit: string): vscode.MarkdownString {
+        const markdown = new vscode.MarkdownString();
+        markdown.appendMarkdown(`**${title}**\n\n`);
+        markdown.appendMarkdown(`- Self: ${formatPercent(stats.self)}\n`);
+        markdown.appendMarkdown(
+            `- Total: ${formatPercent(stats.cumulative)} (${formatValue(stats.value, unit)})\n`
+        );
+        return markdown;
+    }
+
+    private relativeDirectory(filePath: string): string {
+        const relative = vscode.workspace.asRelativePath(path.dirname(filePath));
+        return relative === path.dirname(filePath) || relative === '.' ? '' : relative;
+    }
+
+    private openCommand(filePath: string, line: number): vscode.Command {
+        const position = new vscode.Position(Math.max(0, line - 1), 0);
+        return {
+            command: 'vscode.open',
+            title: 'Open',
+            arguments: [
+                vscode.Uri.file(filePath),
+                { selection: new vscode.Range(position, position) },
+            ],
+        };
+    }
+}
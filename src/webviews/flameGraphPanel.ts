@@ -0,0 +1,476 @@
+import * as vscode from 'vscode';
+import { ProfileStore, ProfileEntry } from '../state/profileStore';
+import { PyroscopeClient } from '../pyroscope/client';
+import { FlameGraph, buildFlameGraph } from '../parser/flameGraph';
+import { ParsedProfile, getSampleTypeIndex } from '../parser/pprofParser';
+import { collectFunctionLocations } from '../parser/flameGraphMapper';
+import { PathResolver } from '../utils/pathResolver';
+import { getLogger, shouldLogDebug } from '../utils/logger';
+import { getNonce } from './webviewUtils';
+
+/**
+ * Webview panel rendering an interactive flame graph for the current session
+ */
+export class FlameGraphPanel {
+    public static readonly viewType = 'pyroscope.flameGraph';
+    private static currentPanel: FlameGraphPanel | undefined;
+
+    private disposables: vscode.Disposable[] = [];
+    private logger: ReturnType<typeof getLogger>;
+    private renderedSource: string | ParsedProfile | undefined; // What the shown graph came from
+    private updateCount = 0; // Only the latest update may render; earlier fetches can be slower
+
+    /**
+     * Show the flame graph for a profile type, reusing the open panel if there is one
+     */
+    public static show(profileStore: ProfileStore, profileName: string): void {
+        if (FlameGraphPanel.currentPanel) {
+            FlameGraphPanel.currentPanel.profileName = profileName;
+            FlameGraphPanel.currentPanel.panel.reveal(vscode.ViewColumn.Beside);
+            FlameGraphPanel.currentPanel.update();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            FlameGraphPanel.viewType,
+            'Flame Graph',
+            vscode.ViewColumn.Beside,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+            }
+        );
+
+        FlameGraphPanel.currentPanel = new FlameGraphPanel(panel, profileStore, profileName);
+    }
+
+    private constructor(
+        private readonly panel: vscode.WebviewPanel,
+        private readonly profileStore: ProfileStore,
+        private profileName: string
+    ) {
+        this.logger = getLogger();
+        this.panel.webview.html = getWebviewContent();
+
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+
+        this.panel.webview.onDidReceiveMessage(
+            (message) => {
+                if (message.type === 'ready') {
+                    this.update();
+                } else if (message.type === 'openFrame') {
+                    this.openFrame(message.name);
+                }
+            },
+            null,
+            this.disposables
+        );
+
+        // Re-render when the data changed, not on every session change (baseline, revision):
+        // for fetched sessions that is the query and its time window, otherwise the samples
+        this.profileStore.onProfileChanged(
+            () => {
+                const entry = this.profileStore.getProfileEntry(this.profileName);
+                if (!entry) {
+                    this.profileName = this.profileStore.getLoadedProfileNames()[0] || '';
+                } else if (
+                    this.renderedSource !== undefined &&
+                    this.getSource(entry) === this.renderedSource
+                ) {
+                    return;
+                }
+                this.update();
+            },
+            null,
+            this.disposables
+        );
+    }
+
+    /**
+     * Load the flame graph for the current profile type and send it to the webview
+     */
+    private async update(): Promise<void> {
+        const request = ++this.updateCount;
+        const entry = this.profileStore.getProfileEntry(this.profileName);
+        const profileInfo = this.profileStore.getProfileInfo();
+
+        if (!entry || !profileInfo) {
+            this.panel.title = 'Flame Graph';
+            this.panel.webview.postMessage({ type: 'error', message: 'No profile loaded' });
+            return;
+        }
+
+        this.panel.title = `Flame Graph: ${entry.name}`;
+        this.panel.webview.postMessage({ type: 'loading' });
+        this.renderedSource = undefined;
+
+        try {
+            const flameGraph = await this.loadFlameGraph(entry);
+            if (request !== this.updateCount) {
+                return;
+            }
+            if (shouldLogDebug()) {
+                this.logger.debug(
+                    `Flame graph for ${entry.name}: ${flameGraph.levels.length} levels, ${flameGraph.names.length} names`
+                );
+            }
+
+            this.renderedSource = this.getSource(entry);
+            this.panel.webview.postMessage({
+                type: 'render',
+                title: `${profileInfo.name} — ${entry.name}`,
+                unit: entry.unit,
+                flameGraph,
+            });
+        } catch (error: any) {
+            if (request !== this.updateCount) {
+                return;
+            }
+            this.logger.error(`Failed to load flame graph: ${error.message}`);
+            this.panel.webview.postMessage({ type: 'error', message: error.message });
+        }
+    }
+
+    /**
+     * Identify the data a flame graph of an entry is built from
+     */
+    private getSource(entry: ProfileEntry): string | ParsedProfile | undefined {
+        const query = this.profileStore.getProfileInfo()?.query;
+        return query ? JSON.stringify({ query, typeId: entry.typeId }) : entry.profile;
+    }
+
+    /**
+     * Fetch the flame graph from the server for fetched sessions, or build it from
+     * the parsed samples for locally loaded files
+     */
+    private async loadFlameGraph(entry: ProfileEntry): Promise<FlameGraph> {
+        const query = this.profileStore.getProfileInfo()?.query;
+
+        if (query) {
+            const config = vscode.workspace.getConfiguration('pyroscope');
+            const client = new PyroscopeClient(
+                query.serverUrl,
+                config.get<string>('authToken', '')
+            );
+            if (query.spanSelector) {
+                return client.fetchSpanProfile(
+                    query.appName,
+                    query.startTime,
+                    query.endTime,
+                    entry.typeId,
+                    query.spanSelector,
+                    query.environment,
+                    query.labelMatchers
+                );
+            }
+            return client.fetchFlameGraph(
+                query.appName,
+                query.startTime,
+                query.endTime,
+                entry.typeId,
+                query.environment,
+                query.labelMatchers
+            );
+        }
+
+        if (!entry.profile) {
+            throw new Error('Profile data is not available for this session');
+        }
+
+        let valueIndex = getSampleTypeIndex(entry.profile, entry.sampleType);
+        if (valueIndex === -1) {
+            // pprof convention: the last sample type is the default
+            valueIndex = entry.profile.sampleTypes.length - 1;
+        }
+
+        return buildFlameGraph(entry.profile, valueIndex);
+    }
+
+    /**
+     * Open the source location of a clicked frame
+     */
+    private async openFrame(functionName: string): Promise<void> {
+        const entry = this.profileStore.getProfileEntry(this.profileName);
+        const locations =
+            entry?.functionLocations ||
+            (entry?.profile ? collectFunctionLocations(entry.profile) : undefined);
+        const location = locations?.get(functionName);
+
+        if (!location) {
+            vscode.window.showInformationMessage(`No source location for ${functionName}`);
+            return;
+        }
+
+        const pathResolver = new PathResolver(this.logger);
+        await pathResolver.initialize();
+        const resolvedPath = pathResolver.resolveFilePath(location.filename);
+        if (!resolvedPath) {
+            vscode.window.showWarningMessage(`Could not resolve ${location.filename} in workspace`);
+            return;
+        }
+
+        const position = new vscode.Position(location.line - 1, 0);
+        await vscode.window.showTextDocument(vscode.Uri.file(resolvedPath), {
+            viewColumn: vscode.ViewColumn.One,
+            selection: new vscode.Range(position, position),
+        });
+    }
+
+    public dispose(): void {
+        FlameGraphPanel.currentPanel = undefined;
+        this.panel.dispose();
+        this.disposables.forEach((d) => d.dispose());
+        this.disposables = [];
+    }
+}
+
+function getWebviewContent(): string {
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Flame Graph</title>
+    <style>
+        body { padding: 0 12px; color: var(--vscode-foreground); font-family: var(--vscode-font-family); }
+        .toolbar { display: flex; gap: 8px; align-items: center; padding: 8px 0; }
+        .toolbar h3 { flex: 1; margin: 0; font-weight: normal; }
+        input { background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); padding: 3px 6px; }
+        button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 10px; cursor: pointer; }
+        button:hover { background: var(--vscode-button-hoverBackground); }
+        #status { opacity: 0.8; padding-bottom: 6px; }
+        #canvas { width: 100%; display: block; cursor: pointer; }
+        #tooltip { position: fixed; pointer-events: none; display: none; background: var(--vscode-editorHoverWidget-background); border: 1px solid var(--vscode-editorHoverWidget-border); padding: 4px 8px; white-space: pre; }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <h3 id="title">Flame Graph</h3>
+        <input id="search" type="text" placeholder="Search functions">
+        <button id="reset">Reset Zoom</button>
+    </div>
+    <div id="status">Loading...</div>
+    <canvas id="canvas"></canvas>
+    <div id="tooltip"></div>
+    <script nonce="${nonce}">
+        (function () {
+            const vscode = acquireVsCodeApi();
+            const canvas = document.getElementById('canvas');
+            const ctx = canvas.getContext('2d');
+            const tooltip = document.getElementById('tooltip');
+            const status = document.getElementById('status');
+            const search = document.getElementById('search');
+            const ROW_HEIGHT = 18;
+
+            let levels = [];
+            let unit = '';
+            let total = 0;
+            let zoom = null;
+            let query = '';
+            let rects = [];
+
+            function decode(flameGraph) {
+                return flameGraph.levels.map(function (level, depth) {
+                    const nodes = [];
+                    let x = 0;
+                    for (let i = 0; i < level.length; i += 4) {
+                        x += level[i];
+                        nodes.push({
+                            x: x,
+                            total: level[i + 1],
+                            self: level[i + 2],
+                            name: flameGraph.names[level[i + 3]] || '',
+                            depth: depth,
+                        });
+                        x += level[i + 1];
+                    }
+                    return nodes;
+                });
+            }
+
+            function formatValue(value) {
+                if (unit === 'nanoseconds') {
+                    const units = [['min', 6e10], ['s', 1e9], ['ms', 1e6], ['μs', 1e3]];
+                    for (const [label, size] of units) {
+                        if (value >= size) {
+                            return (value / size).toFixed(2) + label;
+                        }
+                    }
+                    return value + 'ns';
+                }
+                if (unit === 'bytes') {
+                    const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+                    let i = 0;
+                    while (value >= 1024 && i < sizes.length - 1) {
+                        value /= 1024;
+                        i++;
+                    }
+                    return (i === 0 ? value : value.toFixed(2)) + ' ' + sizes[i];
+                }
+                return value.toLocaleString();
+            }
+
+            function colorFor(name) {
+                let hash = 0;
+                for (let i = 0; i < name.length; i++) {
+                    hash = (hash * 31 + name.charCodeAt(i)) | 0;
+                }
+                const hue = 10 + (Math.abs(hash) % 40);
+                const lightness = 50 + (Math.abs(hash >> 8) % 15);
+                return 'hsl(' + hue + ', 85%, ' + lightness + '%)';
+            }
+
+            function draw() {
+                const width = canvas.clientWidth;
+                const ratio = window.devicePixelRatio || 1;
+                const view = zoom || { x: 0, total: total, depth: 0 };
+                const scale = view.total > 0 ? width / view.total : 0;
+
+                canvas.height = levels.length * ROW_HEIGHT * ratio;
+                canvas.width = width * ratio;
+                canvas.style.height = levels.length * ROW_HEIGHT + 'px';
+                ctx.scale(ratio, ratio);
+                ctx.font = '12px ' + getComputedStyle(document.body).fontFamily;
+                ctx.textBaseline = 'middle';
+
+                rects = [];
+                let matches = 0;
+
+                levels.forEach(function (nodes) {
+                    nodes.forEach(function (node) {
+                        const start = Math.max(node.x, view.x);
+                        const end = Math.min(node.x + node.total, view.x + view.total);
+                        if (end <= start) {
+                            return;
+                        }
+
+                        const x = (start - view.x) * scale;
+                        const w = (end - start) * scale;
+                        if (w < 0.5) {
+                            return;
+                        }
+
+                        const y = node.depth * ROW_HEIGHT;
+                        const matched = query !== '' && node.name.toLowerCase().includes(query);
+                        if (matched) {
+                            matches++;
+                        }
+
+                        ctx.globalAlpha = query !== '' && !matched ? 0.3 : node.depth < view.depth ? 0.6 : 1;
+                        ctx.fillStyle = matched ? 'hsl(280, 70%, 60%)' : colorFor(node.name);
+                        ctx.fillRect(x, y, w - 1, ROW_HEIGHT - 1);
+
+                        if (w > 30) {
+                            ctx.fillStyle = '#000';
+                            ctx.save();
+                            ctx.beginPath();
+                            ctx.rect(x, y, w - 4, ROW_HEIGHT);
+                            ctx.clip();
+                            ctx.fillText(node.name, x + 3, y + ROW_HEIGHT / 2);
+                            ctx.restore();
+                        }
+
+                        rects.push({ x: x, y: y, w: w, node: node });
+                    });
+                });
+                ctx.globalAlpha = 1;
+
+                let text = 'Total: ' + formatValue(total);
+                if (zoom) {
+                    text += ' — zoomed to ' + zoom.name;
+                }
+                if (query !== '') {
+                    text += ' — ' + matches + ' matching frames';
+                }
+                status.textContent = text + '. Double-click a frame to zoom, Ctrl/Cmd+click to open its source.';
+            }
+
+            function hitTest(event) {
+                const bounds = canvas.getBoundingClientRect();
+                const x = event.clientX - bounds.left;
+                const y = event.clientY - bounds.top;
+                return rects.find(function (r) {
+                    return x >= r.x && x < r.x + r.w && y >= r.y && y < r.y + ROW_HEIGHT;
+                });
+            }
+
+            canvas.addEventListener('mousemove', function (event) {
+                const hit = hitTest(event);
+                if (!hit) {
+                    tooltip.style.display = 'none';
+                    return;
+                }
+                const node = hit.node;
+                const percent = total > 0 ? ((node.total / total) * 100).toFixed(2) : '0';
+                tooltip.textContent =
+                    node.name +
+                    '\\nTotal: ' + formatValue(node.total) + ' (' + percent + '%)' +
+                    '\\nSelf: ' + formatValue(node.self);
+                tooltip.style.left = event.clientX + 12 + 'px';
+                tooltip.style.top = event.clientY + 12 + 'px';
+                tooltip.style.display = 'block';
+            });
+
+            canvas.addEventListener('mouseleave', function () {
+                tooltip.style.display = 'none';
+            });
+
+            // A modifier keeps the clicks of a double-click zoom from opening the source too
+            canvas.addEventListener('click', function (event) {
+                if (!event.ctrlKey && !event.metaKey) {
+                    return;
+                }
+                const hit = hitTest(event);
+                if (hit && hit.node.depth > 0) {
+                    vscode.postMessage({ type: 'openFrame', name: hit.node.name });
+                }
+            });
+
+            canvas.addEventListener('dblclick', function (event) {
+                const hit = hitTest(event);
+                if (hit) {
+                    zoom = hit.node.depth > 0 ? hit.node : null;
+                    draw();
+                }
+            });
+
+            document.getElementById('reset').addEventListener('click', function () {
+                zoom = null;
+                draw();
+            });
+
+            search.addEventListener('input', function () {
+                query = search.value.trim().toLowerCase();
+                draw();
+            });
+
+            window.addEventListener('resize', draw);
+
+            window.addEventListener('message', function (event) {
+                const message = event.data;
+                if (message.type === 'render') {
+                    document.getElementById('title').textContent = message.title;
+                    unit = message.unit;
+                    total = message.flameGraph.total;
+                    levels = decode(message.flameGraph);
+                    zoom = null;
+                    draw();
+                } else if (message.type === 'loading') {
+                    status.textContent = 'Loading...';
+                } else if (message.type === 'error') {
+                    levels = [];
+                    rects = [];
+                    canvas.height = 0;
+                    status.textContent = message.message;
+                }
+            });
+
+            vscode.postMessage({ type: 'ready' });
+        })();
+    </script>
+</body>
+</html>`;
+}
@@ -0,0 +1,296 @@
+import * as vscode from 'vscode';
+import { ProfileStore, ProfileEntry } from '../state/profileStore';
+import { PyroscopeClient, SeriesPoint } from '../pyroscope/client';
+import { getLogger } from '../utils/logger';
+import { getNonce } from './webviewUtils';
+
+interface ChartData {
+    name: string;
+    unit: string;
+    points: SeriesPoint[];
+    error?: string;
+}
+
+/**
+ * Webview panel charting the service's total for each profile type over the session's range
+ */
+export class TimeSeriesPanel {
+    public static readonly viewType = 'pyroscope.timeSeries';
+    private static currentPanel: TimeSeriesPanel | undefined;
+
+    private disposables: vscode.Disposable[] = [];
+    private logger: ReturnType<typeof getLogger>;
+
+    /**
+     * Show the time series for the current session, reusing the open panel if there is one
+     */
+    public static show(profileStore: ProfileStore): void {
+        if (TimeSeriesPanel.currentPanel) {
+            TimeSeriesPanel.currentPanel.panel.reveal(vscode.ViewColumn.Beside);
+            TimeSeriesPanel.currentPanel.update();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            TimeSeriesPanel.viewType,
+            'Time Series',
+            vscode.ViewColumn.Beside,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+            }
+        );
+
+        TimeSeriesPanel.currentPanel = new TimeSeriesPanel(panel, profileStore);
+    }
+
+    private constructor(
+        private readonly panel: vscode.WebviewPanel,
+        private readonly profileStore: ProfileStore
+    ) {
+        this.logger = getLogger();
+        this.panel.webview.html = getWebviewContent();
+
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+
+        this.panel.webview.onDidReceiveMessage(
+            (message) => {
+                if (message.type === 'ready') {
+                    this.update();
+                }
+            },
+            null,
+            this.disposables
+        );
+
+        // Re-render when a different session is loaded
+        this.profileStore.onProfileChanged(() => this.update(), null, this.disposables);
+    }
+
+    /**
+     * Fetch one series per loaded profile type and send them to the webview
+     */
+    private async update(): Promise<void> {
+        const profileInfo = this.profileStore.getProfileInfo();
+        const query = profileInfo?.query;
+
+        if (!profileInfo) {
+            this.panel.webview.postMessage({ type: 'error', message: 'No profile loaded' });
+            return;
+        }
+        if (!query) {
+            this.panel.webview.postMessage({
+                type: 'error',
+                message: 'Time series are only available for profiles fetched from Pyroscope',
+            });
+            return;
+        }
+
+        this.panel.title = `Time Series: ${query.appName}`;
+        this.panel.webview.postMessage({ type: 'loading' });
+
+        const config = vscode.workspace.getConfiguration('pyroscope');
+        const client = new PyroscopeClient(query.serverUrl, config.get<string>('authToken', ''));
+
+        const entries = this.profileStore
+            .getLoadedProfileNames()
+            .map((name) => this.profileStore.getProfileEntry(name))
+            .filter((entry): entry is ProfileEntry => entry !== null);
+
+        const charts: ChartData[] = await Promise.all(
+            entries.map(async (entry) => {
+                try {
+                    const series = await client.fetchSeries(
+                        query.appName,
+                        query.startTime,
+                        query.endTime,
+                        entry.typeId,
+                        query.environment,
+                        { labelMatchers: query.labelMatchers }
+                    );
+                    return { name: entry.name, unit: entry.unit, points: series[0]?.points || [] };
+                } catch (error: any) {
+                    this.logger.error(`Failed to fetch series for ${entry.name}: ${error.message}`);
+                    return { name: entry.name, unit: entry.unit, points: [], error: error.message };
+                }
+            })
+        );
+
+        this.panel.webview.postMessage({
+            type: 'render',
+            title: profileInfo.name,
+            startTime: query.startTime * 1000,
+            endTime: query.endTime * 1000,
+            charts,
+        });
+    }
+
+    public dispose(): void {
+        TimeSeriesPanel.currentPanel = undefined;
+        this.panel.dispose();
+        this.disposables.forEach((d) => d.dispose());
+        this.disposables = [];
+    }
+}
+
+function getWebviewContent(): string {
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Time Series</title>
+    <style>
+        body { padding: 0 12px; color: var(--vscode-foreground); font-family: var(--vscode-font-family); }
+        h3 { font-weight: normal; margin: 8px 0; }
+        #status { opacity: 0.8; padding-bottom: 6px; }
+        .chart { margin-bottom: 16px; }
+        .chart-title { display: flex; justify-content: space-between; padding-bottom: 2px; }
+        .chart-title span:last-child { opacity: 0.8; }
+        svg { width: 100%; height: 120px; display: block; background: var(--vscode-editorWidget-background); }
+        .line { fill: none; stroke: var(--vscode-charts-orange, #d18616); stroke-width: 1.5; }
+        .area { fill: var(--vscode-charts-orange, #d18616); opacity: 0.15; }
+        .cursor { stroke: var(--vscode-foreground); stroke-width: 1; opacity: 0.4; }
+        #tooltip { position: fixed; pointer-events: none; display: none; background: var(--vscode-editorHoverWidget-background); border: 1px solid var(--vscode-editorHoverWidget-border); padding: 4px 8px; white-space: pre; }
+    </style>
+</head>
+<body>
+    <h3 id="title">Time Series</h3>
+    <div id="status">Loading...</div>
+    <div id="charts"></div>
+    <div id="tooltip"></div>
+    <script nonce="${nonce}">
+        (function () {
+            const vscode = acquireVsCodeApi();
+            const status = document.getElementById('status');
+            const container = document.getElementById('charts');
+            const tooltip = document.getElementById('tooltip');
+            const WIDTH = 1000;
+            const HEIGHT = 120;
+            const SVG_NS = 'http://www.w3.org/2000/svg';
+
+            function formatValue(value, unit) {
+                if (unit === 'nanoseconds') {
+                    const units = [['min', 6e10], ['s', 1e9], ['ms', 1e6], ['μs', 1e3]];
+                    for (const [label, size] of units) {
+                        if (value >= size) {
+                            return (value / size).toFixed(2) + label;
+                        }
+                    }
+                    return Math.round(value) + 'ns';
+                }
+                if (unit === 'bytes') {
+                    const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+                    let i = 0;
+                    while (value >= 1024 && i < sizes.length - 1) {
+                        value /= 1024;
+                        i++;
+                    }
+                    return (i === 0 ? Math.round(value) : value.toFixed(2)) + ' ' + sizes[i];
+                }
+                return Math.round(value).toLocaleString();
+            }
+
+            function element(name, attributes) {
+                const el = document.createElementNS(SVG_NS, name);
+                Object.keys(attributes).forEach(function (key) {
+                    el.setAttribute(key, attributes[key]);
+                });
+                return el;
+            }
+
+            function renderChart(chart, startTime, endTime) {
+                const wrapper = document.createElement('div');
+                wrapper.className = 'chart';
+
+                const title = document.createElement('div');
+                title.className = 'chart-title';
+                const name = document.createElement('span');
+                name.textContent = chart.name;
+                const summary = document.createElement('span');
+                title.appendChild(name);
+                title.appendChild(summary);
+                wrapper.appendChild(title);
+
+                if (chart.error || chart.points.length === 0) {
+                    summary.textContent = chart.error || 'No data';
+                    container.appendChild(wrapper);
+                    return;
+                }
+
+                const values = chart.points.map(function (p) { return p.value; });
+                const max = Math.max.apply(null, values) || 1;
+                const total = values.reduce(function (sum, v) { return sum + v; }, 0);
+                summary.textContent = 'peak ' + formatValue(max, chart.unit) + ', avg ' + formatValue(total / values.length, chart.unit);
+
+                const span = Math.max(endTime - startTime, 1);
+                const toX = function (t) { return ((t - startTime) / span) * WIDTH; };
+                const toY = function (v) { return HEIGHT - 4 - (v / max) * (HEIGHT - 8); };
+
+                const coords = chart.points.map(function (p) { return toX(p.timestamp) + ',' + toY(p.value); });
+                const svg = element('svg', { viewBox: '0 0 ' + WIDTH + ' ' + HEIGHT, preserveAspectRatio: 'none' });
+                const first = toX(chart.points[0].timestamp);
+                const last = toX(chart.points[chart.points.length - 1].timestamp);
+                svg.appendChild(element('polygon', {
+                    class: 'area',
+                    points: first + ',' + HEIGHT + ' ' + coords.join(' ') + ' ' + last + ',' + HEIGHT,
+                }));
+                svg.appendChild(element('polyline', { class: 'line', points: coords.join(' ') }));
+                const cursor = element('line', { class: 'cursor', y1: 0, y2: HEIGHT, visibility: 'hidden' });
+                svg.appendChild(cursor);
+
+                svg.addEventListener('mousemove', function (event) {
+                    const bounds = svg.getBoundingClientRect();
+                    const t = startTime + ((event.clientX - bounds.left) / bounds.width) * span;
+                    let nearest = chart.points[0];
+                    chart.points.forEach(function (p) {
+                        if (Math.abs(p.timestamp - t) < Math.abs(nearest.timestamp - t)) {
+                            nearest = p;
+                        }
+                    });
+                    const x = toX(nearest.timestamp);
+                    cursor.setAttribute('x1', x);
+                    cursor.setAttribute('x2', x);
+                    cursor.setAttribute('visibility', 'visible');
+                    tooltip.textContent = new Date(nearest.timestamp).toLocaleString() + '\\n' + formatValue(nearest.value, chart.unit);
+                    tooltip.style.left = event.clientX + 12 + 'px';
+                    tooltip.style.top = event.clientY + 12 + 'px';
+                    tooltip.style.display = 'block';
+                });
+
+                svg.addEventListener('mouseleave', function () {
+                    cursor.setAttribute('visibility', 'hidden');
+                    tooltip.style.display = 'none';
+                });
+
+                wrapper.appendChild(svg);
+                container.appendChild(wrapper);
+            }
+
+            window.addEventListener('message', function (event) {
+                const message = event.data;
+                if (message.type === 'render') {
+                    document.getElementById('title').textContent = message.title;
+                    container.innerHTML = '';
+                    status.textContent =
+                        new Date(message.startTime).toLocaleString() + ' — ' + new Date(message.endTime).toLocaleString();
+                    message.charts.forEach(function (chart) {
+                        renderChart(chart, message.startTime, message.endTime);
+                    });
+                } else if (message.type === 'loading') {
+                    status.textContent = 'Loading...';
+                } else if (message.type === 'error') {
+                    container.innerHTML = '';
+                    status.textContent = message.message;
+                }
+            });
+
+            vscode.postMessage({ type: 'ready' });
+        })();
+    </script>
+</body>
+</html>`;
+}